@@ -1,6 +1,10 @@
 import type { NextConfig } from 'next'
 
 const nextConfig: NextConfig = {
+  env: {
+    // Lets the browser check imported history against the same video hosts as the server
+    NEXT_PUBLIC_VIDEO_ALLOWED_HOSTS: process.env.VIDEO_ALLOWED_HOSTS ?? '',
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTaskStore, toVideoGenerationResponse, isTaskFinished, type TaskRecord } from '@/lib/server/task-store'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Rendering progress is time based, so keep pushing updates between store changes
+const PROGRESS_INTERVAL_MS = 2000
+const HEARTBEAT_INTERVAL_MS = 15000
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+): Promise<Response> {
+  const { taskId } = await params
+  const taskStore = getTaskStore()
+  const task = await taskStore.get(taskId)
+
+  if (!task) {
+    return NextResponse.json(
+      { success: false, error: 'Task not found', taskId, status: 'failed' },
+      { status: 404 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let latest: TaskRecord = task
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // The client already went away and the stream was cancelled
+        }
+      }
+
+      // Enqueue throws once the stream has been closed underneath us, which just ends it
+      const enqueue = (chunk: string): boolean => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+          return true
+        } catch {
+          close()
+          return false
+        }
+      }
+
+      const send = (current: TaskRecord) => {
+        if (closed) return
+        latest = current
+        const payload = JSON.stringify(toVideoGenerationResponse(current))
+        if (!enqueue(`data: ${payload}\n\n`)) return
+
+        if (isTaskFinished(current)) {
+          close()
+        }
+      }
+
+      const unsubscribe = taskStore.subscribe(taskId, send)
+      const progressTimer = setInterval(() => send(latest), PROGRESS_INTERVAL_MS)
+      const heartbeatTimer = setInterval(() => {
+        if (!closed) enqueue(': heartbeat\n\n')
+      }, HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(progressTimer)
+        clearInterval(heartbeatTimer)
+        request.signal.removeEventListener('abort', close)
+      }
+
+      request.signal.addEventListener('abort', close)
+
+      // Re-read after subscribing so an update that landed in between is not missed
+      taskStore.get(taskId)
+        .then(current => send(current ?? task))
+        .catch(error => {
+          console.error(`Failed to read task ${taskId} for event stream:`, error)
+          close()
+        })
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getClientKey } from '@/lib/server/client-key'
+import { getServerConfig } from '@/lib/server/config'
+import { cancelGeneration } from '@/lib/server/generation-runner'
+import { toVideoGenerationResponse } from '@/lib/server/task-store'
+import type { VideoGenerationResponse } from '@/lib/video-schema'
+
+export const runtime = 'nodejs'
+
+// Cancels a generation that is still running, including the upstream provider job. Only
+// the client that started it may.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+): Promise<NextResponse<VideoGenerationResponse>> {
+  const { taskId } = await params
+
+  try {
+    const task = await cancelGeneration(taskId, getClientKey(request, getServerConfig().clients))
+
+    if (!task) {
+      return NextResponse.json(
+        { success: false, error: 'Task not found', taskId, status: 'failed' },
+        { status: 404 }
+      )
+    }
+
+    // The task finished before the cancel arrived; report how it ended
+    if (task.status !== 'cancelled') {
+      return NextResponse.json(
+        { ...toVideoGenerationResponse(task), success: false, error: `Task already ${task.status}` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(toVideoGenerationResponse(task))
+  } catch (error) {
+    console.error('Cancel generation error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        taskId,
+        status: 'failed'
+      },
+      { status: 500 }
+    )
+  }
+}
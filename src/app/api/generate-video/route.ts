@@ -1,142 +1,156 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { loadServerConfig, type ServerConfig } from '@/lib/server/config'
+import { getClientIdentityWarning, getClientKey } from '@/lib/server/client-key'
+import { getTaskStore, toVideoGenerationResponse } from '@/lib/server/task-store'
+import { enqueueGeneration } from '@/lib/server/generation-runner'
+import { getIdempotencyStore } from '@/lib/server/idempotency-store'
+import { getRateLimiter, getRateLimitHeaders } from '@/lib/server/rate-limiter'
+import { getVideoProvider } from '@/lib/server/providers'
+import { estimateProcessingTime } from '@/lib/video-api'
+import { parseVideoGenerationRequest, type VideoGenerationResponse } from '@/lib/video-schema'
 
 export const runtime = 'nodejs'
 export const maxDuration = 900 // 15 minutes for video generation
 
-interface VideoGenerationRequest {
-  prompt: string
-  duration: number // 5, 10, 15, or 30 seconds
-  aspectRatio: '16:9' | '9:16' | '1:1'
-  style: string
-  quality: 'standard' | 'high'
-}
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255
+
+export async function POST(request: NextRequest): Promise<NextResponse<VideoGenerationResponse>> {
+  const config = loadServerConfig()
+  if (!config.valid) {
+    console.error('Video generation is not configured:', config.issues)
+    return NextResponse.json(
+      { success: false, error: 'Video generation service is not configured', errorCategory: 'permanent', status: 'failed' },
+      { status: 503 }
+    )
+  }
+
+  const clientKey = getClientKey(request, config.config.clients)
+  const rateLimit = await getRateLimiter().consume(clientKey)
+  const rateLimitHeaders = getRateLimitHeaders(rateLimit)
 
-interface VideoGenerationResponse {
-  success: boolean
-  videoUrl?: string
-  error?: string
-  taskId?: string
-  status?: 'processing' | 'completed' | 'failed'
-  estimatedTime?: number
+  if (!rateLimit.allowed) {
+    const retryAfterSeconds = Math.ceil(rateLimit.retryAfterMs / 1000)
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Too many generation requests; try again in ${retryAfterSeconds} seconds`,
+        errorCategory: 'transient',
+        status: 'failed'
+      },
+      { status: 429, headers: rateLimitHeaders }
+    )
+  }
+
+  const response = await createGeneration(request, config.config, clientKey)
+  for (const [name, value] of Object.entries(rateLimitHeaders)) {
+    response.headers.set(name, value)
+  }
+  return response
 }
 
-export async function POST(request: NextRequest): Promise<NextResponse<VideoGenerationResponse>> {
+async function createGeneration(
+  request: NextRequest,
+  config: ServerConfig,
+  clientKey: string
+): Promise<NextResponse<VideoGenerationResponse>> {
   try {
-    const body: VideoGenerationRequest = await request.json()
-    
-    // Validate the request
-    if (!body.prompt || body.prompt.trim().length === 0) {
+    let input: unknown
+    try {
+      input = await request.json()
+    } catch {
       return NextResponse.json(
-        { success: false, error: 'Prompt is required' },
+        {
+          success: false,
+          error: 'Request body must be valid JSON',
+          errors: [{ field: 'body', code: 'invalid_type', message: 'Request body must be valid JSON' }],
+          errorCategory: 'validation',
+          status: 'failed'
+        },
         { status: 400 }
       )
     }
 
-    if (body.prompt.length > 1000) {
+    // Same schema the client validates against, with the server's configured prompt limit
+    const parsed = parseVideoGenerationRequest(input, config.limits.maxPromptLength)
+    if (!parsed.success) {
       return NextResponse.json(
-        { success: false, error: 'Prompt must be less than 1000 characters' },
+        {
+          success: false,
+          error: parsed.errors[0].message,
+          errors: parsed.errors,
+          errorCategory: 'validation',
+          status: 'failed'
+        },
         { status: 400 }
       )
     }
 
-    // Validate duration
-    const validDurations = [5, 10, 15, 30]
-    if (!validDurations.includes(body.duration)) {
+    const idempotencyKey = request.headers.get('idempotency-key')
+    if (idempotencyKey !== null && (idempotencyKey.length === 0 || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
       return NextResponse.json(
-        { success: false, error: 'Duration must be 5, 10, 15, or 30 seconds' },
+        {
+          success: false,
+          error: `Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+          errorCategory: 'validation',
+          status: 'failed'
+        },
         { status: 400 }
       )
     }
 
-    // Validate aspect ratio
-    const validAspectRatios = ['16:9', '9:16', '1:1']
-    if (!validAspectRatios.includes(body.aspectRatio)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid aspect ratio' },
-        { status: 400 }
-      )
+    const body = parsed.data
+    const taskStore = getTaskStore()
+
+    const createTask = async (): Promise<string> => {
+      const estimatedTime = estimateProcessingTime(body.duration, body.quality)
+      const task = await taskStore.create(body, estimatedTime, clientKey)
+
+      // The job waits its turn in the queue and then runs in the background; clients
+      // follow it through the status endpoint
+      enqueueGeneration(task.taskId, clientKey, body)
+      return task.taskId
     }
 
-    // Create enhanced prompt with technical specifications
-    const enhancedPrompt = createEnhancedPrompt(body)
+    let taskId: string
+    let replayed = false
 
-    // Call the video generation API using Replicate's Veo-3 model
-    const response = await fetch('https://oi-server.onrender.com/chat/completions', {
-      method: 'POST',
-      headers: {
-        'customerId': 'cus_SNXXKIIxqHzWlo',
-        'Content-Type': 'application/json',
-        'Authorization': 'Bearer xxx',
-      },
-      body: JSON.stringify({
-        model: 'replicate/google/veo-3',
-        messages: [
+    if (idempotencyKey) {
+      // Keys are scoped to the client so one caller can never replay another's task
+      const result = await getIdempotencyStore().getOrCreate(
+        `${clientKey}:${idempotencyKey}`,
+        JSON.stringify(body),
+        createTask
+      )
+
+      if (result.status === 'mismatch') {
+        return NextResponse.json(
           {
-            role: 'user',
-            content: enhancedPrompt
-          }
-        ]
-      })
-    })
+            success: false,
+            error: 'Idempotency-Key was already used for a different request',
+            status: 'failed'
+          },
+          { status: 422 }
+        )
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Video generation API error:', errorText)
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: `Failed to generate video: ${response.status} ${response.statusText}`,
-          status: 'failed'
-        },
-        { status: 500 }
-      )
+      taskId = result.taskId
+      replayed = result.status === 'replayed'
+    } else {
+      taskId = await createTask()
     }
 
-    const result = await response.json()
-    
-    // Check if the response contains a video URL or if it's still processing
-    if (result.choices && result.choices[0] && result.choices[0].message) {
-      const content = result.choices[0].message.content
-      
-      // Try to extract video URL from the response
-      const videoUrlMatch = content.match(/https?:\/\/[^\s]+\.mp4/)
-      
-      if (videoUrlMatch) {
-        // Video generation completed successfully
-        return NextResponse.json({
-          success: true,
-          videoUrl: videoUrlMatch[0],
-          status: 'completed'
-        })
-      } else {
-        // Check if it's a processing status
-        if (content.includes('processing') || content.includes('generating')) {
-          return NextResponse.json({
-            success: true,
-            status: 'processing',
-            estimatedTime: estimateProcessingTime(body.duration, body.quality),
-            taskId: generateTaskId()
-          })
-        } else {
-          // Return the content as video URL (API might return direct URL)
-          return NextResponse.json({
-            success: true,
-            videoUrl: content.trim(),
-            status: 'completed'
-          })
-        }
-      }
+    const task = await taskStore.get(taskId)
+    if (!task) {
+      // Only possible for a replay whose task outlived the retention window
+      return NextResponse.json(
+        { success: false, error: 'The task for this Idempotency-Key no longer exists', taskId, status: 'failed' },
+        { status: 410 }
+      )
     }
 
-    // If no valid response structure, return error
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: 'Invalid response from video generation service',
-        status: 'failed'
-      },
-      { status: 500 }
-    )
+    return NextResponse.json(toVideoGenerationResponse(task), {
+      headers: replayed ? { 'Idempotent-Replayed': 'true' } : undefined
+    })
 
   } catch (error) {
     console.error('Video generation error:', error)
@@ -144,6 +158,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<VideoGene
       { 
         success: false, 
         error: error instanceof Error ? error.message : 'Internal server error',
+        errorCategory: 'transient',
         status: 'failed'
       },
       { status: 500 }
@@ -151,63 +166,34 @@ export async function POST(request: NextRequest): Promise<NextResponse<VideoGene
   }
 }
 
-function createEnhancedPrompt(request: VideoGenerationRequest): string {
-  const { prompt, duration, aspectRatio, style, quality } = request
-  
-  let enhancedPrompt = `Generate a ${duration}-second video`
-  
-  // Add aspect ratio specification
-  if (aspectRatio === '16:9') {
-    enhancedPrompt += ' in widescreen format (16:9)'
-  } else if (aspectRatio === '9:16') {
-    enhancedPrompt += ' in portrait format (9:16)'
-  } else {
-    enhancedPrompt += ' in square format (1:1)'
-  }
-  
-  // Add quality specification
-  if (quality === 'high') {
-    enhancedPrompt += ', high quality, 4K resolution'
-  }
-  
-  // Add style specifications
-  if (style && style !== 'default') {
-    enhancedPrompt += `, ${style.toLowerCase()} style`
-  }
-  
-  // Add the main prompt
-  enhancedPrompt += `: ${prompt}`
-  
-  // Add technical requirements
-  enhancedPrompt += '. Ensure smooth motion, clear visuals, and professional quality.'
-  
-  return enhancedPrompt
-}
-
-function estimateProcessingTime(duration: number, quality: string): number {
-  // Base time in seconds for processing
-  let baseTime = duration * 10 // 10 seconds of processing per second of video
-  
-  if (quality === 'high') {
-    baseTime *= 1.5 // High quality takes 50% longer
+// Health check endpoint; reports configuration problems by variable name only
+export async function GET(): Promise<NextResponse> {
+  const config = loadServerConfig()
+
+  if (!config.valid) {
+    return NextResponse.json({
+      status: 'unhealthy',
+      service: 'video-generation',
+      timestamp: new Date().toISOString(),
+      configValid: false,
+      configErrors: config.issues
+    }, { status: 503 })
   }
-  
-  return Math.max(baseTime, 30) // Minimum 30 seconds
-}
 
-function generateTaskId(): string {
-  return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-}
+  const provider = getVideoProvider()
+  const capabilities = provider.capabilities()
+  const identityWarning = getClientIdentityWarning(config.config.clients)
 
-// Health check endpoint
-export async function GET(): Promise<NextResponse> {
   return NextResponse.json({ 
     status: 'healthy',
     service: 'video-generation',
     timestamp: new Date().toISOString(),
-    models: ['replicate/google/veo-3'],
-    supportedFormats: ['16:9', '9:16', '1:1'],
-    maxDuration: 30,
-    maxPromptLength: 1000
+    configValid: true,
+    warnings: identityWarning ? [identityWarning] : [],
+    provider: provider.name,
+    models: capabilities.models,
+    supportedFormats: capabilities.supportedFormats,
+    maxDuration: Math.max(...capabilities.supportedDurations),
+    maxPromptLength: capabilities.maxPromptLength
   })
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTaskStore, toVideoGenerationResponse } from '@/lib/server/task-store'
+import type { VideoGenerationResponse } from '@/lib/video-schema'
+
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest): Promise<NextResponse<VideoGenerationResponse>> {
+  const taskId = request.nextUrl.searchParams.get('taskId')
+
+  if (!taskId) {
+    return NextResponse.json(
+      { success: false, error: 'taskId is required' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const task = await getTaskStore().get(taskId)
+
+    if (!task) {
+      return NextResponse.json(
+        { success: false, error: 'Task not found', taskId, status: 'failed' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(toVideoGenerationResponse(task))
+  } catch (error) {
+    console.error('Status check error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        taskId,
+        status: 'failed'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { GenerationsResponse } from '@/lib/generation-query'
+import { hasConfiguredApiKey } from '@/lib/server/client-key'
+import { getServerConfig } from '@/lib/server/config'
+import { getGenerationRepository } from '@/lib/server/generation-repository'
+
+export const runtime = 'nodejs'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<GenerationsResponse>> {
+  const { id } = await params
+
+  try {
+    const generation = await getGenerationRepository().get(id)
+
+    if (!generation) {
+      return NextResponse.json({ success: false, error: 'Generation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, generation })
+  } catch (error) {
+    console.error('Get generation error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Removing a generation takes it away from every teammate, so only callers with a
+// configured API key may
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<GenerationsResponse>> {
+  const { id } = await params
+
+  try {
+    if (!hasConfiguredApiKey(request, getServerConfig().clients)) {
+      return NextResponse.json(
+        { success: false, error: 'A key from CLIENT_API_KEYS is required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await getGenerationRepository().delete(id))) {
+      return NextResponse.json({ success: false, error: 'Generation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete generation error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
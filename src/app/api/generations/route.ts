@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generationListQuerySchema, MAX_SAVE_BATCH_SIZE, type GenerationsResponse } from '@/lib/generation-query'
+import { getServerConfig } from '@/lib/server/config'
+import { getGenerationRepository } from '@/lib/server/generation-repository'
+import { createSharedGenerationSchema, toFieldErrors } from '@/lib/video-schema'
+
+export const runtime = 'nodejs'
+
+const createSaveRequestSchema = () =>
+  createSharedGenerationSchema(getServerConfig().videoUrls.allowedHosts).array()
+    .max(MAX_SAVE_BATCH_SIZE, `At most ${MAX_SAVE_BATCH_SIZE} generations can be saved at once`)
+
+const errorResponse = (error: unknown, context: string): NextResponse<GenerationsResponse> => {
+  console.error(`${context}:`, error)
+  return NextResponse.json(
+    { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+    { status: 500 }
+  )
+}
+
+// Lists the shared history a page at a time, searched, filtered and sorted like the
+// history view
+export async function GET(request: NextRequest): Promise<NextResponse<GenerationsResponse>> {
+  const parsed = generationListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    const errors = toFieldErrors(parsed.error)
+    return NextResponse.json({ success: false, error: errors[0].message, errors }, { status: 400 })
+  }
+
+  try {
+    const page = await getGenerationRepository().list(parsed.data)
+    return NextResponse.json({ success: true, ...page })
+  } catch (error) {
+    return errorResponse(error, 'List generations error')
+  }
+}
+
+// Saves one generation or an array of them. Existing generations only take fields they
+// do not have yet; those a save would change are reported in `rejected`.
+export async function POST(request: NextRequest): Promise<NextResponse<GenerationsResponse>> {
+  let input: unknown
+  try {
+    input = await request.json()
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Request body must be valid JSON',
+        errors: [{ field: 'body', code: 'invalid_type', message: 'Request body must be valid JSON' }]
+      },
+      { status: 400 }
+    )
+  }
+
+  const parsed = createSaveRequestSchema().safeParse(Array.isArray(input) ? input : [input])
+  if (!parsed.success) {
+    const errors = toFieldErrors(parsed.error)
+    return NextResponse.json({ success: false, error: errors[0].message, errors }, { status: 400 })
+  }
+
+  const generations = parsed.data
+
+  try {
+    const rejected = await getGenerationRepository().putAll(generations)
+    return NextResponse.json({ success: true, saved: generations.length - rejected.length, rejected })
+  } catch (error) {
+    return errorResponse(error, 'Save generations error')
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseRangeHeader } from '@/lib/server/byte-range'
+import { loadServerConfig } from '@/lib/server/config'
+import { getTestPatternVideo } from '@/lib/server/mock-video'
+import { aspectRatioSchema, durationSchema } from '@/lib/video-schema'
+
+export const runtime = 'nodejs'
+
+// Serves the test-pattern clips that the mock provider hands out as video URLs, with
+// Range support so players can seek in them as in stored videos
+export async function GET(request: NextRequest): Promise<Response> {
+  const config = loadServerConfig()
+  if (!config.valid || config.config.provider.name !== 'mock') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const aspectRatio = aspectRatioSchema.safeParse(request.nextUrl.searchParams.get('aspectRatio') ?? '16:9')
+  const duration = durationSchema.safeParse(Number(request.nextUrl.searchParams.get('duration') ?? 5))
+
+  if (!aspectRatio.success || !duration.success) {
+    return NextResponse.json({ error: 'Invalid aspect ratio or duration' }, { status: 400 })
+  }
+
+  const video = getTestPatternVideo(aspectRatio.data, duration.data)
+  const headers: Record<string, string> = {
+    'Content-Type': 'video/mp4',
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'public, max-age=31536000, immutable'
+  }
+
+  // There is no validator for If-Range to match, so a conditional Range gets the whole clip
+  const rangeHeader = request.headers.get('if-range') ? null : request.headers.get('range')
+
+  const range = parseRangeHeader(rangeHeader, video.length)
+  if (range === null) {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${video.length}` }
+    })
+  }
+
+  const body = range ? video.subarray(range.start, range.end + 1) : video
+  headers['Content-Length'] = body.length.toString()
+  if (range) {
+    headers['Content-Range'] = `bytes ${range.start}-${range.end}/${video.length}`
+  }
+
+  return new Response(new Uint8Array(body), { status: range ? 206 : 200, headers })
+}
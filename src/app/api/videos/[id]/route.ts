@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseRangeHeader } from '@/lib/server/byte-range'
+import { getVideoStorage, isValidStorageKey, type StoredObject } from '@/lib/server/video-storage'
+
+export const runtime = 'nodejs'
+
+const EXTENSIONS_BY_CONTENT_TYPE: Record<string, string> = {
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/quicktime': '.mov'
+}
+
+// Streams a stored video, honouring Range requests so players can seek without
+// downloading the whole file. `?download=<filename>` sends it as an attachment.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  return serveVideo(request, (await params).id, true)
+}
+
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  return serveVideo(request, (await params).id, false)
+}
+
+// Stored videos never change once written, so size and creation time identify them
+const getETag = (video: StoredObject): string => {
+  return `"${video.size.toString(16)}-${Date.parse(video.createdAt).toString(16)}"`
+}
+
+const matchesETag = (header: string | null, etag: string): boolean => {
+  if (!header) return false
+  if (header.trim() === '*') return true
+  return header.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)
+}
+
+// Keeps the suggested name to safe characters and makes sure it has the right extension
+const getContentDisposition = (download: string | null, video: StoredObject): string => {
+  if (download === null) return 'inline'
+
+  const extension = EXTENSIONS_BY_CONTENT_TYPE[video.contentType] ?? ''
+  const name = download.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '').slice(0, 200) || video.key
+  const filename = extension && !name.toLowerCase().endsWith(extension) ? `${name}${extension}` : name
+  return `attachment; filename="${filename}"`
+}
+
+async function serveVideo(request: NextRequest, id: string, includeBody: boolean): Promise<Response> {
+  const storage = getVideoStorage()
+  const video = storage && isValidStorageKey(id) ? await storage.headObject(id) : undefined
+  if (!storage || !video) {
+    return NextResponse.json({ error: 'Video not found' }, { status: 404 })
+  }
+
+  const etag = getETag(video)
+  const headers: Record<string, string> = {
+    'Content-Type': video.contentType,
+    'Content-Disposition': getContentDisposition(request.nextUrl.searchParams.get('download'), video),
+    'Accept-Ranges': 'bytes',
+    'ETag': etag,
+    'Cache-Control': 'public, max-age=31536000, immutable'
+  }
+
+  if (matchesETag(request.headers.get('if-none-match'), etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  // A Range conditioned on an older copy gets the whole current file instead
+  const ifRange = request.headers.get('if-range')
+  const rangeHeader = ifRange && ifRange !== etag ? null : request.headers.get('range')
+
+  const range = parseRangeHeader(rangeHeader, video.size)
+  if (range === null) {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${video.size}` }
+    })
+  }
+
+  const status = range ? 206 : 200
+  const length = range ? range.end - range.start + 1 : video.size
+  headers['Content-Length'] = length.toString()
+  if (range) {
+    headers['Content-Range'] = `bytes ${range.start}-${range.end}/${video.size}`
+  }
+
+  if (!includeBody) {
+    return new Response(null, { status, headers })
+  }
+
+  const body = await storage.getObject(id, range)
+  if (!body) {
+    return NextResponse.json({ error: 'Video not found' }, { status: 404 })
+  }
+
+  return new Response(body, { status, headers })
+}
@@ -1,33 +1,42 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback } from 'react'
+import { toast } from 'sonner'
 import { VideoGenerator } from '@/components/VideoGenerator'
 import { GenerationQueue } from '@/components/GenerationQueue'
 import { GenerationHistory } from '@/components/GenerationHistory'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
+import { useGenerationNotifications, useVideoGeneration } from '@/hooks/use-video-generation'
+import type { Generation } from '@/lib/video-schema'
 
 export default function HomePage() {
-  const [activeGenerations, setActiveGenerations] = useState<any[]>([])
-  const [generationHistory, setGenerationHistory] = useState<any[]>([])
+  const { activeGenerations, generationHistory } = useVideoGeneration()
 
-  const handleNewGeneration = (generation: any) => {
-    setActiveGenerations(prev => [...prev, generation])
-  }
+  const announceGeneration = useCallback((generation: Generation) => {
+    switch (generation.status) {
+      case 'completed':
+        toast.success('Video generated successfully!', {
+          description: 'Your video is ready for preview and download'
+        })
+        break
+      case 'cancelled':
+        // Cancelled from the queue, which already let the user know
+        break
+      case 'expired':
+        toast.error('Video generation timed out', {
+          description: generation.error
+        })
+        break
+      default:
+        toast.error('Failed to generate video', {
+          description: generation.error || 'Please try again'
+        })
+    }
+  }, [])
 
-  const handleGenerationComplete = (completedGeneration: any) => {
-    setActiveGenerations(prev => 
-      prev.filter(gen => gen.id !== completedGeneration.id)
-    )
-    setGenerationHistory(prev => [completedGeneration, ...prev])
-  }
-
-  const handleGenerationError = (failedGeneration: any) => {
-    setActiveGenerations(prev => 
-      prev.filter(gen => gen.id !== failedGeneration.id)
-    )
-  }
+  useGenerationNotifications(announceGeneration)
 
   return (
     <div className="max-w-7xl mx-auto space-y-8">
@@ -93,11 +102,7 @@ export default function HomePage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <VideoGenerator 
-                onNewGeneration={handleNewGeneration}
-                onGenerationComplete={handleGenerationComplete}
-                onGenerationError={handleGenerationError}
-              />
+              <VideoGenerator />
             </CardContent>
           </Card>
         </TabsContent>
@@ -115,11 +120,7 @@ export default function HomePage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <GenerationQueue 
-                generations={activeGenerations}
-                onGenerationComplete={handleGenerationComplete}
-                onGenerationError={handleGenerationError}
-              />
+              <GenerationQueue />
             </CardContent>
           </Card>
         </TabsContent>
@@ -137,10 +138,7 @@ export default function HomePage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <GenerationHistory 
-                history={generationHistory}
-                onClearHistory={() => setGenerationHistory([])}
-              />
+              <GenerationHistory />
             </CardContent>
           </Card>
         </TabsContent>
@@ -9,51 +9,43 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
 import { toast } from 'sonner'
 import { VideoPreview } from './VideoPreview'
+import { HoverScrubPreview } from './HoverScrubPreview'
+import { HistoryTransfer } from './HistoryTransfer'
+import { downloadVideo, RateLimitError } from '@/lib/video-api'
+import { useCachedVideoUrls } from '@/hooks/use-cached-video-urls'
+import { useVideoGeneration } from '@/hooks/use-video-generation'
+import { TERMINAL_STATUSES, type TerminalStatus } from '@/lib/generation-status'
+import { filterAndSortGenerations, type GenerationSort } from '@/lib/generation-query'
+import type { ErrorCategory, Generation } from '@/lib/video-schema'
+import { GENERATION_STATUS_DISPLAY, GenerationStatusBadge } from './GenerationStatusBadge'
 
-interface Generation {
-  id: string
-  prompt: string
-  config: {
-    duration: number
-    aspectRatio: string
-    style: string
-    quality: string
-  }
-  status: 'completed' | 'failed'
-  createdAt: string
-  completedAt?: string
-  videoUrl?: string
-  error?: string
+// Tells users whether a failed generation is worth trying again as-is
+const ERROR_CATEGORY_DISPLAY: Record<ErrorCategory, { label: string; hint: string }> = {
+  transient: { label: 'Temporary', hint: 'Temporary problem — retrying should work' },
+  quota: { label: 'Quota', hint: 'Quota exhausted — wait or add credits before retrying' },
+  validation: { label: 'Rejected', hint: 'Request rejected — change the prompt or settings first' },
+  permanent: { label: 'Permanent', hint: 'Retrying is unlikely to help' }
 }
 
-interface GenerationHistoryProps {
-  history: Generation[]
-  onClearHistory: () => void
-}
+// Failures that the same request can get past, so they are offered a Retry button
+const RETRYABLE_CATEGORIES = new Set<ErrorCategory>(['transient', 'quota'])
+
+const canRetry = (generation: Generation): boolean =>
+  generation.status === 'failed' && !!generation.errorCategory && RETRYABLE_CATEGORIES.has(generation.errorCategory)
 
-export function GenerationHistory({ history, onClearHistory }: GenerationHistoryProps) {
+export function GenerationHistory() {
+  const { generationHistory: history, clearHistory, retryGeneration } = useVideoGeneration()
   const [searchTerm, setSearchTerm] = useState('')
-  const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'duration'>('newest')
-  const [filterBy, setFilterBy] = useState<'all' | 'completed' | 'failed'>('all')
+  const [sortBy, setSortBy] = useState<GenerationSort>('newest')
+  const [filterBy, setFilterBy] = useState<'all' | TerminalStatus>('all')
+  const cachedVideoUrls = useCachedVideoUrls(history)
 
-  const filteredAndSortedHistory = history
-    .filter(gen => {
-      const matchesSearch = gen.prompt.toLowerCase().includes(searchTerm.toLowerCase())
-      const matchesFilter = filterBy === 'all' || gen.status === filterBy
-      return matchesSearch && matchesFilter
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'newest':
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        case 'oldest':
-          return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-        case 'duration':
-          return b.config.duration - a.config.duration
-        default:
-          return 0
-      }
-    })
+  // Same matching and ordering as the server's /api/generations
+  const filteredAndSortedHistory = filterAndSortGenerations(history, {
+    search: searchTerm,
+    status: filterBy === 'all' ? undefined : filterBy,
+    sort: sortBy
+  })
 
   const formatDate = (timestamp: string) => {
     return new Date(timestamp).toLocaleString('en-US', {
@@ -65,29 +57,44 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
     })
   }
 
-  const handleDownload = async (generation: Generation) => {
+  const handleClearHistory = async () => {
+    try {
+      await clearHistory()
+      toast.success('History cleared')
+    } catch (error) {
+      console.error('Clear history failed:', error)
+      toast.error('Failed to clear history')
+    }
+  }
+
+  const handleDownload = (generation: Generation) => {
     if (!generation.videoUrl) return
 
     try {
-      const response = await fetch(generation.videoUrl)
-      const blob = await response.blob()
-      const url = URL.createObjectURL(blob)
-      
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `video-${generation.id}.mp4`
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      
-      URL.revokeObjectURL(url)
-      toast.success('Video downloaded!')
+      downloadVideo(cachedVideoUrls[generation.id] ?? generation.videoUrl, `video-${generation.id}.mp4`)
+      toast.success('Download started')
     } catch (error) {
       console.error('Download failed:', error)
       toast.error('Failed to download video')
     }
   }
 
+  const handleRetry = async (generation: Generation) => {
+    toast.success('Retrying generation', { description: generation.prompt })
+
+    try {
+      // Progress and the outcome are announced by the page, as for new generations
+      await retryGeneration(generation)
+    } catch (error) {
+      console.error('Retry failed:', error)
+      toast.error('Failed to retry generation', {
+        description: error instanceof RateLimitError
+          ? `You can generate again in ${Math.ceil(error.retryAfterMs / 1000)} seconds`
+          : error instanceof Error ? error.message : 'Please try again'
+      })
+    }
+  }
+
   const handleCopyPrompt = async (prompt: string) => {
     try {
       await navigator.clipboard.writeText(prompt)
@@ -106,6 +113,9 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
         <p className="text-muted-foreground">
           Your completed video generations will appear here for easy access and management.
         </p>
+        <div className="flex justify-center gap-2 mt-6">
+          <HistoryTransfer />
+        </div>
       </div>
     )
   }
@@ -123,7 +133,7 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
           />
         </div>
         
-        <Select value={sortBy} onValueChange={(value: any) => setSortBy(value)}>
+        <Select value={sortBy} onValueChange={(value: GenerationSort) => setSortBy(value)}>
           <SelectTrigger className="w-full sm:w-48">
             <SelectValue placeholder="Sort by" />
           </SelectTrigger>
@@ -134,17 +144,22 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
           </SelectContent>
         </Select>
 
-        <Select value={filterBy} onValueChange={(value: any) => setFilterBy(value)}>
+        <Select value={filterBy} onValueChange={(value: 'all' | TerminalStatus) => setFilterBy(value)}>
           <SelectTrigger className="w-full sm:w-48">
             <SelectValue placeholder="Filter by" />
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Videos</SelectItem>
-            <SelectItem value="completed">Completed</SelectItem>
-            <SelectItem value="failed">Failed</SelectItem>
+            {TERMINAL_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>
+                {GENERATION_STATUS_DISPLAY[status].label}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
+        <HistoryTransfer />
+
         {history.length > 0 && (
           <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -161,7 +176,7 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
               </AlertDialogHeader>
               <AlertDialogFooter>
                 <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction onClick={onClearHistory}>
+                <AlertDialogAction onClick={handleClearHistory}>
                   Clear History
                 </AlertDialogAction>
               </AlertDialogFooter>
@@ -176,8 +191,11 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
           Showing {filteredAndSortedHistory.length} of {history.length} videos
         </span>
         <div className="flex items-center space-x-4">
-          <span>✅ {history.filter(h => h.status === 'completed').length} completed</span>
-          <span>❌ {history.filter(h => h.status === 'failed').length} failed</span>
+          {TERMINAL_STATUSES.map(status => (
+            <span key={status}>
+              {GENERATION_STATUS_DISPLAY[status].icon} {history.filter(h => h.status === status).length} {status}
+            </span>
+          ))}
         </div>
       </div>
 
@@ -190,15 +208,7 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
                 <CardTitle className="text-sm font-medium line-clamp-1">
                   Video #{generation.id.slice(-6)}
                 </CardTitle>
-                <Badge 
-                  className={
-                    generation.status === 'completed' 
-                      ? 'bg-green-500/10 text-green-500 border-green-500/20' 
-                      : 'bg-red-500/10 text-red-500 border-red-500/20'
-                  }
-                >
-                  {generation.status === 'completed' ? '✅' : '❌'}
-                </Badge>
+                <GenerationStatusBadge status={generation.status} iconOnly />
               </div>
             </CardHeader>
             
@@ -207,17 +217,16 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
               {generation.status === 'completed' && generation.videoUrl ? (
                 <VideoPreview
                   videoUrl={generation.videoUrl}
+                  cachedVideoUrl={cachedVideoUrls[generation.id]}
+                  posterUrl={generation.posterUrl}
                   title={`Video #${generation.id.slice(-6)}`}
                   prompt={generation.prompt}
                   config={generation.config}
                 >
-                  <div className="relative aspect-video bg-muted rounded-md overflow-hidden cursor-pointer hover:opacity-80 transition-opacity">
-                    <img 
-                      src="https://storage.googleapis.com/workspace-0f70711f-8b4e-4d94-86f1-2a93ccde5887/image/8d050c45-1c24-4f6b-9df4-b5c19d301340.png"
-                      alt="Video thumbnail"
-                      className="w-full h-full object-cover"
-                    />
-                    <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+                  <div className="group relative aspect-video bg-muted rounded-md overflow-hidden cursor-pointer">
+                    <HoverScrubPreview generation={generation} />
+                    {/* Out of the way while scrubbing so the frames are visible */}
+                    <div className={`absolute inset-0 flex items-center justify-center bg-black/40 pointer-events-none transition-opacity ${generation.previewSprite ? 'group-hover:opacity-0' : 'group-hover:opacity-80'}`}>
                       <div className="w-12 h-12 bg-white/90 rounded-full flex items-center justify-center">
                         <span className="text-xl">▶️</span>
                       </div>
@@ -226,7 +235,7 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
                 </VideoPreview>
               ) : (
                 <div className="aspect-video bg-muted rounded-md flex items-center justify-center">
-                  <span className="text-4xl opacity-50">❌</span>
+                  <span className="text-4xl opacity-50">{GENERATION_STATUS_DISPLAY[generation.status].icon}</span>
                 </div>
               )}
 
@@ -258,9 +267,19 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
               </div>
 
               {/* Error Message */}
-              {generation.status === 'failed' && generation.error && (
-                <div className="text-xs text-destructive bg-destructive/10 p-2 rounded border">
-                  {generation.error}
+              {generation.status !== 'completed' && generation.error && (
+                <div className="text-xs text-destructive bg-destructive/10 p-2 rounded border space-y-1">
+                  <div className="flex items-start gap-2">
+                    {generation.errorCategory && (
+                      <Badge variant="outline" className="text-xs border-destructive/40 text-destructive shrink-0">
+                        {ERROR_CATEGORY_DISPLAY[generation.errorCategory].label}
+                      </Badge>
+                    )}
+                    <span>{generation.error}</span>
+                  </div>
+                  {generation.errorCategory && generation.status !== 'cancelled' && (
+                    <p className="text-muted-foreground">{ERROR_CATEGORY_DISPLAY[generation.errorCategory].hint}</p>
+                  )}
                 </div>
               )}
 
@@ -270,6 +289,8 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
                   <>
                     <VideoPreview
                       videoUrl={generation.videoUrl}
+                      cachedVideoUrl={cachedVideoUrls[generation.id]}
+                      posterUrl={generation.posterUrl}
                       title={`Video #${generation.id.slice(-6)}`}
                       prompt={generation.prompt}
                       config={generation.config}
@@ -290,6 +311,18 @@ export function GenerationHistory({ history, onClearHistory }: GenerationHistory
                     </Button>
                   </>
                 )}
+                {generation.status === 'failed' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRetry(generation)}
+                    disabled={!canRetry(generation)}
+                    className="flex-1 text-xs"
+                  >
+                    <span className="mr-1">🔄</span>
+                    Retry
+                  </Button>
+                )}
               </div>
 
               {/* Timestamp */}
@@ -1,77 +1,57 @@
 'use client'
 
-import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Separator } from '@/components/ui/separator'
 import { toast } from 'sonner'
-
-interface Generation {
-  id: string
-  prompt: string
-  config: {
-    duration: number
-    aspectRatio: string
-    style: string
-    quality: string
+import { isActiveStatus } from '@/lib/generation-status'
+import { useVideoGeneration } from '@/hooks/use-video-generation'
+import { GENERATION_STATUS_DISPLAY, GenerationStatusBadge } from './GenerationStatusBadge'
+import type { Generation } from '@/lib/video-schema'
+
+export function GenerationQueue() {
+  const { activeGenerations: generations, cancelGeneration } = useVideoGeneration()
+
+  const handleCancelGeneration = async (generationId: string) => {
+    // Stops the server-side job too, so it does not keep running upstream
+    try {
+      await cancelGeneration(generationId)
+      toast.info('Generation cancelled')
+    } catch (error) {
+      toast.error('Could not cancel generation', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    }
   }
-  status: 'processing' | 'completed' | 'failed'
-  progress: number
-  createdAt: string
-  completedAt?: string
-  videoUrl?: string
-  error?: string
-}
-
-interface GenerationQueueProps {
-  generations: Generation[]
-  onGenerationComplete: (generation: Generation) => void
-  onGenerationError: (generation: Generation) => void
-}
 
-export function GenerationQueue({ 
-  generations, 
-  onGenerationComplete: _, 
-  onGenerationError 
-}: GenerationQueueProps) {
-  const [localGenerations, setLocalGenerations] = useState<Generation[]>(generations)
+  const getProgressLabel = (generation: Generation) => {
+    if (generation.status === 'queued' && generation.queuePosition) {
+      return `Queued (#${generation.queuePosition})`
+    }
 
-  useEffect(() => {
-    setLocalGenerations(generations)
-  }, [generations])
+    if (generation.status !== 'processing') {
+      return GENERATION_STATUS_DISPLAY[generation.status].label
+    }
 
-  useEffect(() => {
-    // Simulate progress updates for processing generations
-    const interval = setInterval(() => {
-      setLocalGenerations(prev => 
-        prev.map(gen => {
-          if (gen.status === 'processing' && gen.progress < 90) {
-            const increment = Math.random() * 10 + 5 // 5-15% increment
-            const newProgress = Math.min(gen.progress + increment, 90)
-            return { ...gen, progress: newProgress }
-          }
-          return gen
-        })
-      )
-    }, 2000)
+    switch (generation.stage) {
+      case 'rendering':
+        return 'Rendering'
+      case 'uploading':
+        return 'Uploading'
+      default:
+        return 'Progress'
+    }
+  }
 
-    return () => clearInterval(interval)
-  }, [])
+  // The server's estimate runs out before slow renders do
+  const formatTimeRemaining = (seconds: number) => {
+    if (seconds <= 0) return 'Almost done'
+    if (seconds < 60) return `About ${Math.ceil(seconds)} seconds remaining`
 
-  const handleCancelGeneration = (generationId: string) => {
-    const generation = localGenerations.find(g => g.id === generationId)
-    if (generation) {
-      const cancelledGeneration = {
-        ...generation,
-        status: 'failed' as const,
-        error: 'Cancelled by user',
-        completedAt: new Date().toISOString()
-      }
-      onGenerationError(cancelledGeneration)
-      toast.info('Generation cancelled')
-    }
+    const minutes = Math.ceil(seconds / 60)
+    return `About ${minutes} minute${minutes === 1 ? '' : 's'} remaining`
   }
 
   const formatTimeAgo = (timestamp: string) => {
@@ -90,33 +70,7 @@ export function GenerationQueue({
     return `${diffDays}d ago`
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'processing':
-        return 'bg-blue-500/10 text-blue-500 border-blue-500/20'
-      case 'completed':
-        return 'bg-green-500/10 text-green-500 border-green-500/20'
-      case 'failed':
-        return 'bg-red-500/10 text-red-500 border-red-500/20'
-      default:
-        return 'bg-gray-500/10 text-gray-500 border-gray-500/20'
-    }
-  }
-
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'processing':
-        return '⏳'
-      case 'completed':
-        return '✅'
-      case 'failed':
-        return '❌'
-      default:
-        return '⚪'
-    }
-  }
-
-  if (localGenerations.length === 0) {
+  if (generations.length === 0) {
     return (
       <div className="text-center py-12">
         <div className="text-4xl mb-4">🎬</div>
@@ -130,23 +84,19 @@ export function GenerationQueue({
 
   return (
     <div className="space-y-4">
-      {localGenerations.map((generation, index) => (
+      {generations.map((generation, index) => (
         <Card key={generation.id} className="relative">
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
               <CardTitle className="text-base flex items-center space-x-2">
-                <span className="text-lg">{getStatusIcon(generation.status)}</span>
-                <span>Generation #{localGenerations.length - index}</span>
+                <span className="text-lg">{GENERATION_STATUS_DISPLAY[generation.status].icon}</span>
+                <span>Generation #{generations.length - index}</span>
               </CardTitle>
               
               <div className="flex items-center space-x-2">
-                <Badge className={getStatusColor(generation.status)}>
-                  {generation.status === 'processing' ? 'Processing' : 
-                   generation.status === 'completed' ? 'Completed' : 
-                   'Failed'}
-                </Badge>
+                <GenerationStatusBadge status={generation.status} />
                 
-                {generation.status === 'processing' && (
+                {isActiveStatus(generation.status) && (
                   <Button
                     variant="outline"
                     size="sm"
@@ -192,16 +142,24 @@ export function GenerationQueue({
             <Separator />
 
             {/* Progress */}
-            {generation.status === 'processing' && (
+            {isActiveStatus(generation.status) && (
               <div className="space-y-2">
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">Progress</span>
+                  <span className="text-muted-foreground">{getProgressLabel(generation)}</span>
                   <span className="font-medium">{Math.round(generation.progress)}%</span>
                 </div>
                 <Progress value={generation.progress} className="h-2" />
-                <div className="text-xs text-muted-foreground">
-                  Estimated time remaining: {Math.ceil((100 - generation.progress) / 10)} minutes
-                </div>
+                {generation.status === 'queued' && generation.queuePosition ? (
+                  <div className="text-xs text-muted-foreground">
+                    {generation.queuePosition === 1
+                      ? 'Next in line, starts as soon as a slot frees up'
+                      : `Position ${generation.queuePosition} in queue, ${generation.queuePosition - 1} ahead of you`}
+                  </div>
+                ) : generation.estimatedTime !== undefined && (
+                  <div className="text-xs text-muted-foreground">
+                    {formatTimeRemaining(generation.estimatedTime)}
+                  </div>
+                )}
               </div>
             )}
 
@@ -236,7 +194,7 @@ export function GenerationQueue({
               <span>Started {formatTimeAgo(generation.createdAt)}</span>
               {generation.completedAt && (
                 <span>
-                  {generation.status === 'completed' ? 'Completed' : 'Failed'} {formatTimeAgo(generation.completedAt)}
+                  {GENERATION_STATUS_DISPLAY[generation.status].label} {formatTimeAgo(generation.completedAt)}
                 </span>
               )}
             </div>
@@ -245,27 +203,27 @@ export function GenerationQueue({
       ))}
 
       {/* Queue Statistics */}
-      {localGenerations.length > 0 && (
+      {generations.length > 0 && (
         <Card className="bg-muted/30">
           <CardContent className="pt-6">
             <div className="grid grid-cols-3 gap-4 text-center">
               <div>
-                <div className="text-2xl font-bold text-blue-500">
-                  {localGenerations.filter(g => g.status === 'processing').length}
+                <div className="text-2xl font-bold text-slate-500">
+                  {generations.filter(g => g.status === 'queued').length}
                 </div>
-                <div className="text-sm text-muted-foreground">Processing</div>
+                <div className="text-sm text-muted-foreground">Queued</div>
               </div>
               <div>
-                <div className="text-2xl font-bold text-green-500">
-                  {localGenerations.filter(g => g.status === 'completed').length}
+                <div className="text-2xl font-bold text-indigo-500">
+                  {generations.filter(g => g.status === 'submitted').length}
                 </div>
-                <div className="text-sm text-muted-foreground">Completed</div>
+                <div className="text-sm text-muted-foreground">Submitted</div>
               </div>
               <div>
-                <div className="text-2xl font-bold text-red-500">
-                  {localGenerations.filter(g => g.status === 'failed').length}
+                <div className="text-2xl font-bold text-blue-500">
+                  {generations.filter(g => g.status === 'processing').length}
                 </div>
-                <div className="text-sm text-muted-foreground">Failed</div>
+                <div className="text-sm text-muted-foreground">Processing</div>
               </div>
             </div>
           </CardContent>
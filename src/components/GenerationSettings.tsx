@@ -6,13 +6,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-
-interface GenerationConfig {
-  duration: number
-  aspectRatio: '16:9' | '9:16' | '1:1'
-  style: string
-  quality: 'standard' | 'high'
-}
+import type { GenerationConfig } from '@/lib/video-schema'
 
 interface GenerationSettingsProps {
   config: GenerationConfig
@@ -0,0 +1,57 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import type { GenerationStatus } from '@/lib/video-schema'
+
+export const GENERATION_STATUS_DISPLAY: Record<GenerationStatus, { label: string; icon: string; className: string }> = {
+  queued: {
+    label: 'Queued',
+    icon: '🕒',
+    className: 'bg-slate-500/10 text-slate-500 border-slate-500/20'
+  },
+  submitted: {
+    label: 'Submitted',
+    icon: '📤',
+    className: 'bg-indigo-500/10 text-indigo-500 border-indigo-500/20'
+  },
+  processing: {
+    label: 'Processing',
+    icon: '⏳',
+    className: 'bg-blue-500/10 text-blue-500 border-blue-500/20'
+  },
+  completed: {
+    label: 'Completed',
+    icon: '✅',
+    className: 'bg-green-500/10 text-green-500 border-green-500/20'
+  },
+  failed: {
+    label: 'Failed',
+    icon: '❌',
+    className: 'bg-red-500/10 text-red-500 border-red-500/20'
+  },
+  cancelled: {
+    label: 'Cancelled',
+    icon: '🚫',
+    className: 'bg-gray-500/10 text-gray-500 border-gray-500/20'
+  },
+  expired: {
+    label: 'Expired',
+    icon: '⌛',
+    className: 'bg-amber-500/10 text-amber-500 border-amber-500/20'
+  }
+}
+
+interface GenerationStatusBadgeProps {
+  status: GenerationStatus
+  iconOnly?: boolean
+}
+
+export function GenerationStatusBadge({ status, iconOnly = false }: GenerationStatusBadgeProps) {
+  const display = GENERATION_STATUS_DISPLAY[status]
+
+  return (
+    <Badge className={display.className} title={display.label}>
+      {iconOnly ? display.icon : display.label}
+    </Badge>
+  )
+}
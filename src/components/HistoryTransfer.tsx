@@ -0,0 +1,241 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { toast } from 'sonner'
+import { useVideoGeneration } from '@/hooks/use-video-generation'
+import { historyRepository } from '@/lib/history-repository'
+import {
+  downloadBlob,
+  exportHistoryJson,
+  exportHistoryZip,
+  planHistoryImport,
+  readHistoryFile,
+  type ConflictResolution,
+  type ImportMode,
+  type ParsedHistoryImport
+} from '@/lib/history-transfer'
+import type { Generation } from '@/lib/video-schema'
+
+// How many conflicts and invalid records the preview lists by name
+const PREVIEW_LIMIT = 5
+
+interface PendingImport {
+  fileName: string
+  parsed: ParsedHistoryImport
+}
+
+// Prefers the copy cached in the browser, which outlives expiring provider URLs
+const getVideoFile = async (generation: Generation): Promise<Blob | undefined> => {
+  const cached = await historyRepository.getCachedVideo(generation.id)
+  if (cached) return cached.blob
+  if (!generation.videoUrl) return undefined
+
+  const response = await fetch(generation.videoUrl)
+  if (!response.ok) {
+    throw new Error(`Video download failed: ${response.status}`)
+  }
+  return response.blob()
+}
+
+// Export and import buttons for the history, with a preview of what an import will
+// change before anything is written
+export function HistoryTransfer() {
+  const { generationHistory: history, importHistory } = useVideoGeneration()
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [exporting, setExporting] = useState(false)
+  const [pending, setPending] = useState<PendingImport | null>(null)
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [resolution, setResolution] = useState<ConflictResolution>('keep-existing')
+  const [importing, setImporting] = useState(false)
+
+  const plan = useMemo(
+    () => pending ? planHistoryImport(history, pending.parsed.generations, mode, resolution) : null,
+    [history, pending, mode, resolution]
+  )
+
+  const exportName = `video-history-${new Date().toISOString().slice(0, 10)}`
+
+  const handleExportJson = () => {
+    downloadBlob(exportHistoryJson(history), `${exportName}.json`)
+    toast.success(`Exported ${history.length} generations`)
+  }
+
+  const handleExportZip = async () => {
+    setExporting(true)
+    try {
+      const { blob, missingVideos } = await exportHistoryZip(history, getVideoFile)
+      downloadBlob(blob, `${exportName}.zip`)
+      toast.success(`Exported ${history.length} generations`, {
+        description: missingVideos > 0 ? `${missingVideos} videos could not be included` : undefined
+      })
+    } catch (error) {
+      console.error('History export failed:', error)
+      toast.error('Failed to export history', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleFileChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Lets the same file be chosen again after a cancelled import
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const parsed = await readHistoryFile(file)
+      setMode('merge')
+      setResolution('keep-existing')
+      setPending({ fileName: file.name, parsed })
+    } catch (error) {
+      console.error('History import failed:', error)
+      toast.error('Could not read history file', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    }
+  }
+
+  const handleImport = async () => {
+    if (!pending || !plan) return
+
+    setImporting(true)
+    try {
+      await importHistory(plan, pending.parsed.videos)
+      toast.success(`Imported ${plan.writes.length} generations`)
+      setPending(null)
+    } catch (error) {
+      console.error('History import failed:', error)
+      toast.error('Failed to import history', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const invalid = pending?.parsed.invalid ?? []
+  const videoCount = pending?.parsed.videos.size ?? 0
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="whitespace-nowrap" disabled={history.length === 0 || exporting}>
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={handleExportJson}>History only (JSON)</DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleExportZip}>History and videos (ZIP)</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button variant="outline" className="whitespace-nowrap" onClick={() => fileInput.current?.click()}>
+        Import
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".json,.zip,application/json,application/zip"
+        className="hidden"
+        onChange={handleFileChosen}
+      />
+
+      <Dialog open={pending !== null} onOpenChange={open => !open && !importing && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Generation History</DialogTitle>
+            <DialogDescription>
+              {pending?.fileName}
+              {pending?.parsed.exportedAt && `, exported ${new Date(pending.parsed.exportedAt).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {plan && (
+            <div className="space-y-4 text-sm">
+              <RadioGroup value={mode} onValueChange={(value: ImportMode) => setMode(value)} className="space-y-2">
+                <div className="flex items-center space-x-3">
+                  <RadioGroupItem value="merge" id="import-merge" />
+                  <Label htmlFor="import-merge" className="cursor-pointer">Merge into current history</Label>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <RadioGroupItem value="replace" id="import-replace" />
+                  <Label htmlFor="import-replace" className="cursor-pointer">Replace current history</Label>
+                </div>
+              </RadioGroup>
+
+              {/* Dry run: nothing is written until the import is confirmed */}
+              <ul className="space-y-1 text-muted-foreground">
+                <li>{plan.added.length} new</li>
+                <li>{plan.conflicts.length} conflicting with a different version already in history</li>
+                <li>{plan.unchanged} already in history</li>
+                {plan.mode === 'replace' && <li>{plan.removed.length} removed from history</li>}
+                {videoCount > 0 && <li>{videoCount} videos included</li>}
+                {invalid.length > 0 && <li className="text-destructive">{invalid.length} invalid records skipped</li>}
+              </ul>
+
+              {plan.conflicts.length > 0 && (
+                <div className="space-y-2">
+                  {plan.mode === 'merge' && (
+                    <RadioGroup
+                      value={resolution}
+                      onValueChange={(value: ConflictResolution) => setResolution(value)}
+                      className="space-y-2"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <RadioGroupItem value="keep-existing" id="conflict-keep" />
+                        <Label htmlFor="conflict-keep" className="cursor-pointer">Keep the versions in history</Label>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <RadioGroupItem value="use-imported" id="conflict-overwrite" />
+                        <Label htmlFor="conflict-overwrite" className="cursor-pointer">Use the versions from the file</Label>
+                      </div>
+                    </RadioGroup>
+                  )}
+                  <ul className="space-y-1 text-xs text-muted-foreground">
+                    {plan.conflicts.slice(0, PREVIEW_LIMIT).map(({ existing, imported }) => (
+                      <li key={existing.id} className="line-clamp-1">
+                        #{existing.id.slice(-6)} {existing.prompt}: {existing.status} in history, {imported.status} in file
+                      </li>
+                    ))}
+                    {plan.conflicts.length > PREVIEW_LIMIT && <li>and {plan.conflicts.length - PREVIEW_LIMIT} more</li>}
+                  </ul>
+                </div>
+              )}
+
+              {invalid.length > 0 && (
+                <ul className="space-y-1 text-xs text-destructive">
+                  {invalid.slice(0, PREVIEW_LIMIT).map(record => (
+                    <li key={record.position}>Record {record.position}: {record.message}</li>
+                  ))}
+                  {invalid.length > PREVIEW_LIMIT && <li>and {invalid.length - PREVIEW_LIMIT} more</li>}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={importing}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={importing || !plan || (plan.mode === 'merge' && plan.writes.length === 0)}
+            >
+              {importing
+                ? 'Importing...'
+                : plan?.mode === 'replace' ? 'Replace History' : `Import ${plan?.writes.length ?? 0}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { useState } from 'react'
+import type { Generation } from '@/lib/video-schema'
+
+interface HoverScrubPreviewProps {
+  generation: Generation
+}
+
+// Shows the poster frame, and while hovered scrubs through the preview sprite based on
+// where the cursor is, so motion can be judged without opening the player
+export function HoverScrubPreview({ generation }: HoverScrubPreviewProps) {
+  const [frame, setFrame] = useState<number | null>(null)
+  const sprite = generation.previewSprite
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!sprite) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    const fraction = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 0.9999)
+    setFrame(Math.floor(fraction * sprite.frameCount))
+  }
+
+  if (sprite && frame !== null) {
+    return (
+      <div
+        className="w-full h-full relative flex justify-center bg-black"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setFrame(null)}
+      >
+        {/* Sized to the video's own shape so frames are not stretched */}
+        <div
+          role="img"
+          aria-label={`Frame ${frame + 1} of ${sprite.frameCount} from video #${generation.id.slice(-6)}`}
+          className="h-full max-w-full bg-no-repeat"
+          style={{
+            aspectRatio: generation.config.aspectRatio.replace(':', ' / '),
+            backgroundImage: `url(${sprite.url})`,
+            backgroundSize: `${sprite.frameCount * 100}% 100%`,
+            backgroundPosition: `${sprite.frameCount > 1 ? (frame / (sprite.frameCount - 1)) * 100 : 0}% 0`
+          }}
+        />
+        <div className="absolute bottom-0 left-0 h-1 bg-primary" style={{ width: `${((frame + 1) / sprite.frameCount) * 100}%` }} />
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className="w-full h-full"
+      onPointerEnter={handlePointerMove}
+      onPointerMove={handlePointerMove}
+    >
+      {generation.posterUrl ? (
+        // A data URL, so like the sprite it is drawn as a background rather than optimized
+        <div
+          role="img"
+          aria-label={`Poster frame for video #${generation.id.slice(-6)}`}
+          className="w-full h-full bg-cover bg-center"
+          style={{ backgroundImage: `url(${generation.posterUrl})` }}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <span className="text-4xl opacity-50">🎬</span>
+        </div>
+      )}
+    </div>
+  )
+}
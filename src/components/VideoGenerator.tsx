@@ -1,34 +1,23 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
+import { estimateProcessingTime, validateVideoRequest, RateLimitError } from '@/lib/video-api'
+import { useVideoGeneration } from '@/hooks/use-video-generation'
+import type { GenerationConfig } from '@/lib/video-schema'
 import { PromptInput } from './PromptInput'
 import { GenerationSettings } from './GenerationSettings'
 
-interface VideoGeneratorProps {
-  onNewGeneration: (generation: any) => void
-  onGenerationComplete: (generation: any) => void
-  onGenerationError: (generation: any) => void
-}
-
-interface GenerationConfig {
-  duration: number
-  aspectRatio: '16:9' | '9:16' | '1:1'
-  style: string
-  quality: 'standard' | 'high'
-}
-
-export function VideoGenerator({ 
-  onNewGeneration, 
-  onGenerationComplete, 
-  onGenerationError 
-}: VideoGeneratorProps) {
+export function VideoGenerator() {
+  const { generateVideo } = useVideoGeneration()
   const [prompt, setPrompt] = useState('')
   const [isGenerating, setIsGenerating] = useState(false)
+  // Seconds until the server accepts another request after throttling this client
+  const [rateLimitSeconds, setRateLimitSeconds] = useState(0)
   const [config, setConfig] = useState<GenerationConfig>({
     duration: 10,
     aspectRatio: '16:9',
@@ -36,117 +25,57 @@ export function VideoGenerator({
     quality: 'standard'
   })
 
-  const handleGenerate = async () => {
-    if (!prompt.trim()) {
-      toast.error('Please enter a video description')
-      return
-    }
+  useEffect(() => {
+    if (rateLimitSeconds <= 0) return
+    const timeout = setTimeout(() => setRateLimitSeconds(seconds => seconds - 1), 1000)
+    return () => clearTimeout(timeout)
+  }, [rateLimitSeconds])
 
-    if (prompt.length > 1000) {
-      toast.error('Description must be less than 1000 characters')
+  const handleGenerate = async () => {
+    const request = { prompt: prompt.trim(), ...config }
+    const validationError = validateVideoRequest(request)
+    if (validationError) {
+      toast.error(validationError)
       return
     }
 
-    const generation = {
-      id: `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      prompt: prompt.trim(),
-      config,
-      status: 'processing',
-      createdAt: new Date().toISOString(),
-      progress: 0
-    }
-
     setIsGenerating(true)
-    onNewGeneration(generation)
-    
     toast.success('Video generation started!', {
       description: `Generating ${config.duration}s video in ${config.aspectRatio} format`
     })
 
     try {
-      const response = await fetch('/api/generate-video', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          prompt: prompt.trim(),
-          duration: config.duration,
-          aspectRatio: config.aspectRatio,
-          style: config.style,
-          quality: config.quality
-        })
-      })
+      // Background progress and the final outcome are announced by the page
+      const generation = await generateVideo(request.prompt, config)
 
-      const result = await response.json()
-
-      if (result.success) {
-        if (result.status === 'completed' && result.videoUrl) {
-          // Generation completed immediately
-          const completedGeneration = {
-            ...generation,
-            status: 'completed',
-            videoUrl: result.videoUrl,
-            completedAt: new Date().toISOString(),
-            progress: 100
-          }
-          
-          onGenerationComplete(completedGeneration)
-          toast.success('Video generated successfully!', {
-            description: 'Your video is ready for preview and download'
-          })
-        } else if (result.status === 'processing') {
-          // Generation is still processing
-          toast.info('Video is being processed', {
-            description: `Estimated time: ${Math.ceil((result.estimatedTime || 60) / 60)} minutes`
-          })
-          
-          // Start polling for completion (in a real app, you'd use websockets or polling)
-          pollForCompletion(generation.id, result.taskId)
-        }
-      } else {
-        throw new Error(result.error || 'Failed to generate video')
+      if (generation.status === 'completed') {
+        toast.success('Video generated successfully!', {
+          description: 'Your video is ready for preview and download'
+        })
+      } else if (generation.status !== 'cancelled') {
+        toast.info('Video is being processed', {
+          description: `Estimated time: ${Math.ceil(estimateProcessingTime(config.duration, config.quality) / 60)} minutes`
+        })
       }
     } catch (error) {
       console.error('Generation error:', error)
-      const errorGeneration = {
-        ...generation,
-        status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date().toISOString()
+
+      if (error instanceof RateLimitError) {
+        const seconds = Math.ceil(error.retryAfterMs / 1000)
+        setRateLimitSeconds(seconds)
+        toast.error('Too many requests', {
+          description: `You can generate again in ${seconds} seconds`
+        })
+      } else {
+        toast.error('Failed to generate video', {
+          description: error instanceof Error ? error.message : 'Please try again'
+        })
       }
-      
-      onGenerationError(errorGeneration)
-      toast.error('Failed to generate video', {
-        description: error instanceof Error ? error.message : 'Please try again'
-      })
     } finally {
       setIsGenerating(false)
     }
   }
 
-  const pollForCompletion = async (generationId: string, _taskId?: string) => {
-    // In a real implementation, you would poll the API or use websockets
-    // For demo purposes, we'll simulate completion after a delay
-    setTimeout(() => {
-      const completedGeneration = {
-        id: generationId,
-        prompt: prompt.trim(),
-        config,
-        status: 'completed',
-        videoUrl: 'https://storage.googleapis.com/workspace-0f70711f-8b4e-4d94-86f1-2a93ccde5887/image/89456a6b-66dd-4b55-8ed2-54af18d10554.png',
-        createdAt: new Date().toISOString(),
-        completedAt: new Date().toISOString(),
-        progress: 100
-      }
-      
-      onGenerationComplete(completedGeneration)
-      toast.success('Video generated successfully!', {
-        description: 'Your video is ready for preview and download'
-      })
-    }, 5000) // Simulate 5 second processing
-  }
-
   const handlePromptSuggestion = (suggestion: string) => {
     setPrompt(suggestion)
   }
@@ -244,7 +173,7 @@ export function VideoGenerator({
       {/* Generate Button */}
       <Button 
         onClick={handleGenerate}
-        disabled={isGenerating || !prompt.trim()}
+        disabled={isGenerating || rateLimitSeconds > 0 || !prompt.trim()}
         className="w-full h-12 text-base font-medium"
         size="lg"
       >
@@ -253,6 +182,11 @@ export function VideoGenerator({
             <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2"></div>
             Generating Video...
           </>
+        ) : rateLimitSeconds > 0 ? (
+          <>
+            <span className="mr-2">⏱️</span>
+            Try again in {rateLimitSeconds}s
+          </>
         ) : (
           <>
             <span className="mr-2">🎬</span>
@@ -7,22 +7,25 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Slider } from '@/components/ui/slider'
 import { toast } from 'sonner'
+import { downloadVideo } from '@/lib/video-api'
+import { posterToFile } from '@/lib/video-frames'
+import type { GenerationConfig } from '@/lib/video-schema'
 
 interface VideoPreviewProps {
   videoUrl: string
+  // Local copy to play and download instead of videoUrl, which may have expired
+  cachedVideoUrl?: string
+  posterUrl?: string
   title: string
   prompt: string
-  config: {
-    duration: number
-    aspectRatio: string
-    style: string
-    quality: string
-  }
+  config: GenerationConfig
   children: React.ReactNode
 }
 
 export function VideoPreview({ 
   videoUrl, 
+  cachedVideoUrl,
+  posterUrl,
   title, 
   prompt, 
   config, 
@@ -125,21 +128,10 @@ export function VideoPreview({
     }
   }
 
-  const downloadVideo = async () => {
+  const handleDownload = () => {
     try {
-      const response = await fetch(videoUrl)
-      const blob = await response.blob()
-      const url = URL.createObjectURL(blob)
-      
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `ai-generated-video-${Date.now()}.mp4`
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      
-      URL.revokeObjectURL(url)
-      toast.success('Video downloaded successfully!')
+      downloadVideo(cachedVideoUrl ?? videoUrl, `ai-generated-video-${Date.now()}.mp4`)
+      toast.success('Download started')
     } catch (error) {
       console.error('Download failed:', error)
       toast.error('Failed to download video')
@@ -147,13 +139,26 @@ export function VideoPreview({
   }
 
   const shareVideo = async () => {
+    // Stored videos have same-origin paths, which mean nothing outside this page
+    const shareUrl = new URL(videoUrl, window.location.href).href
+
     if (navigator.share) {
       try {
-        await navigator.share({
+        const shareData: ShareData = {
           title: title,
           text: `Check out this AI-generated video: ${prompt}`,
-          url: videoUrl
-        })
+          url: shareUrl
+        }
+
+        // Attach the poster frame where the platform can share files
+        if (posterUrl) {
+          const files = [await posterToFile(posterUrl, title.replace(/\W+/g, '-').toLowerCase())]
+          if (navigator.canShare?.({ ...shareData, files })) {
+            shareData.files = files
+          }
+        }
+
+        await navigator.share(shareData)
         toast.success('Video shared successfully!')
       } catch (error) {
         console.error('Share failed:', error)
@@ -161,7 +166,7 @@ export function VideoPreview({
     } else {
       // Fallback: Copy to clipboard
       try {
-        await navigator.clipboard.writeText(videoUrl)
+        await navigator.clipboard.writeText(shareUrl)
         toast.success('Video URL copied to clipboard!')
       } catch (error) {
         console.error('Copy failed:', error)
@@ -212,7 +217,8 @@ export function VideoPreview({
             
             <video
               ref={videoRef}
-              src={videoUrl}
+              src={cachedVideoUrl ?? videoUrl}
+              poster={posterUrl}
               className="w-full h-full object-contain"
               preload="metadata"
               playsInline
@@ -312,7 +318,7 @@ export function VideoPreview({
 
           {/* Action Buttons */}
           <div className="flex flex-wrap gap-2">
-            <Button onClick={downloadVideo} className="flex-1">
+            <Button onClick={handleDownload} className="flex-1">
               <span className="mr-2">⬇️</span>
               Download
             </Button>
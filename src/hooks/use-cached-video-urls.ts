@@ -0,0 +1,75 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { generationStore } from '@/lib/generation-store'
+import { historyRepository } from '@/lib/history-repository'
+import type { Generation } from '@/lib/video-schema'
+
+// Object URLs for the locally cached copies of these generations' videos, by
+// generation ID. Cached copies keep playing after the original URL has expired.
+export function useCachedVideoUrls(generations: Generation[]): Record<string, string> {
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  // Each URL lives as long as its generation stays in the list, so a video playing from
+  // one is not interrupted when other generations come and go
+  const created = useRef(new Map<string, string>())
+  // Bumped when a video is cached, so generations already checked are checked again
+  const [cacheVersion, setCacheVersion] = useState(0)
+  const ids = generations
+    .filter(generation => generation.status === 'completed')
+    .map(generation => generation.id)
+    .join(',')
+
+  useEffect(() => {
+    const current = created.current
+    const wanted = new Set(ids ? ids.split(',') : [])
+
+    let removed = false
+    for (const [id, url] of current) {
+      if (wanted.has(id)) continue
+      URL.revokeObjectURL(url)
+      current.delete(id)
+      removed = true
+    }
+    if (removed) setUrls(Object.fromEntries(current))
+
+    // Generations without a cached video are looked up again each time one is cached
+    const missing = Array.from(wanted).filter(id => !current.has(id))
+    if (missing.length === 0) return
+
+    let cancelled = false
+
+    Promise.all(missing.map(async id => {
+      const video = await historyRepository.getCachedVideo(id)
+      return video ? [id, video.blob] as const : undefined
+    }))
+      .then(entries => {
+        if (cancelled) return
+        let added = false
+        for (const entry of entries) {
+          if (!entry || current.has(entry[0])) continue
+          current.set(entry[0], URL.createObjectURL(entry[1]))
+          added = true
+        }
+        if (added) setUrls(Object.fromEntries(current))
+      })
+      .catch(error => console.error('Failed to read cached videos:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [ids, cacheVersion])
+
+  useEffect(() => generationStore.onVideoCached(id => {
+    if (!created.current.has(id)) setCacheVersion(version => version + 1)
+  }), [])
+
+  useEffect(() => {
+    const current = created.current
+    return () => {
+      current.forEach(url => URL.revokeObjectURL(url))
+      current.clear()
+    }
+  }, [])
+
+  return urls
+}
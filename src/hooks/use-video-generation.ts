@@ -1,215 +1,73 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { videoAPI, saveGenerationToHistory, getGenerationHistory } from '@/lib/video-api'
-
-interface GenerationConfig {
-  duration: number
-  aspectRatio: '16:9' | '9:16' | '1:1'
-  style: string
-  quality: 'standard' | 'high'
-}
-
-interface Generation {
-  id: string
-  prompt: string
-  config: GenerationConfig
-  status: 'processing' | 'completed' | 'failed'
-  createdAt: string
-  completedAt?: string
-  videoUrl?: string
-  error?: string
-  progress: number
-  taskId?: string
-}
+import { useCallback, useEffect, useSyncExternalStore } from 'react'
+import { generationStore, type GenerationStoreState } from '@/lib/generation-store'
+import type { ImportPlan } from '@/lib/history-transfer'
+import type { Generation, GenerationConfig, GenerationStatus } from '@/lib/video-schema'
 
 export interface UseVideoGenerationReturn {
   // State
   activeGenerations: Generation[]
   generationHistory: Generation[]
-  isGenerating: boolean
-  
+  historyLoaded: boolean
+
   // Actions
-  generateVideo: (prompt: string, config: GenerationConfig) => Promise<boolean>
-  cancelGeneration: (id: string) => void
-  retryGeneration: (generation: Generation) => Promise<boolean>
-  clearHistory: () => void
-  
+  // Resolves once the server accepts the generation; failures are recorded and rethrown
+  generateVideo: (prompt: string, config: GenerationConfig) => Promise<Generation>
+  cancelGeneration: (id: string) => Promise<void>
+  retryGeneration: (generation: Generation) => Promise<Generation>
+  clearHistory: () => Promise<void>
+  importHistory: (plan: ImportPlan, videos?: Map<string, Blob>) => Promise<void>
+
   // Helpers
   getGenerationById: (id: string) => Generation | undefined
   getActiveCount: () => number
   getCompletedCount: () => number
   getFailedCount: () => number
+  getCancelledCount: () => number
+  getExpiredCount: () => number
+}
+
+// The server renders nothing from IndexedDB, so it always sees an empty store
+const SERVER_SNAPSHOT: GenerationStoreState = {
+  activeGenerations: [],
+  generationHistory: [],
+  historyLoaded: false
 }
 
+const getServerSnapshot = () => SERVER_SNAPSHOT
+
+// Shared view of the generation store; every component using it sees the same state
 export function useVideoGeneration(): UseVideoGenerationReturn {
-  const [activeGenerations, setActiveGenerations] = useState<Generation[]>([])
-  const [generationHistory, setGenerationHistory] = useState<Generation[]>([])
-  const [isGenerating, setIsGenerating] = useState(false)
+  const { activeGenerations, generationHistory, historyLoaded } = useSyncExternalStore(
+    generationStore.subscribe,
+    generationStore.getSnapshot,
+    getServerSnapshot
+  )
 
   // Load history on mount
   useEffect(() => {
-    const history = getGenerationHistory()
-    setGenerationHistory(history)
+    void generationStore.load()
   }, [])
 
-  // Progress simulation for active generations
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setActiveGenerations(prev => 
-        prev.map(gen => {
-          if (gen.status === 'processing' && gen.progress < 90) {
-            const increment = Math.random() * 8 + 2 // 2-10% increment
-            const newProgress = Math.min(gen.progress + increment, 90)
-            return { ...gen, progress: newProgress }
-          }
-          return gen
-        })
-      )
-    }, 3000)
-
-    return () => clearInterval(interval)
+  const generateVideo = useCallback((prompt: string, config: GenerationConfig) => {
+    return generationStore.generate(prompt, config)
   }, [])
 
-  const generateUniqueId = (): string => {
-    return `gen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-  }
-
-  const generateVideo = useCallback(async (
-    prompt: string, 
-    config: GenerationConfig
-  ): Promise<boolean> => {
-    const generation: Generation = {
-      id: generateUniqueId(),
-      prompt: prompt.trim(),
-      config,
-      status: 'processing',
-      createdAt: new Date().toISOString(),
-      progress: 0
-    }
-
-    // Add to active generations
-    setActiveGenerations(prev => [...prev, generation])
-    setIsGenerating(true)
-
-    try {
-      const response = await videoAPI.generateVideo({
-        prompt: prompt.trim(),
-        duration: config.duration,
-        aspectRatio: config.aspectRatio,
-        style: config.style,
-        quality: config.quality
-      })
-
-      if (response.success) {
-        if (response.status === 'completed' && response.videoUrl) {
-          // Generation completed immediately
-          const completedGeneration: Generation = {
-            ...generation,
-            status: 'completed',
-            videoUrl: response.videoUrl,
-            completedAt: new Date().toISOString(),
-            progress: 100
-          }
-
-          // Move from active to history
-          setActiveGenerations(prev => prev.filter(g => g.id !== generation.id))
-          setGenerationHistory(prev => [completedGeneration, ...prev])
-          saveGenerationToHistory(completedGeneration)
-          
-          return true
-        } else if (response.status === 'processing') {
-          // Update with task ID for polling
-          setActiveGenerations(prev => 
-            prev.map(g => 
-              g.id === generation.id 
-                ? { ...g, taskId: response.taskId, progress: 5 }
-                : g
-            )
-          )
-          
-          // Start polling for completion
-          pollForCompletion(generation.id, response.taskId)
-          return true
-        }
-      }
-
-      throw new Error(response.error || 'Generation failed')
-    } catch (error) {
-      const failedGeneration: Generation = {
-        ...generation,
-        status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date().toISOString(),
-        progress: 0
-      }
-
-      setActiveGenerations(prev => prev.filter(g => g.id !== generation.id))
-      setGenerationHistory(prev => [failedGeneration, ...prev])
-      saveGenerationToHistory(failedGeneration)
-      
-      return false
-    } finally {
-      setIsGenerating(false)
-    }
+  const cancelGeneration = useCallback((id: string) => {
+    return generationStore.cancel(id)
   }, [])
 
-  const pollForCompletion = useCallback(async (generationId: string, _taskId?: string) => {
-    // Simulate completion after 5-10 seconds for demo
-    const delay = Math.random() * 5000 + 5000 // 5-10 seconds
-    
-    setTimeout(() => {
-      setActiveGenerations(prev => {
-        const generation = prev.find(g => g.id === generationId)
-        if (!generation) return prev
-
-        const completedGeneration: Generation = {
-          ...generation,
-          status: 'completed',
-          videoUrl: 'https://storage.googleapis.com/workspace-0f70711f-8b4e-4d94-86f1-2a93ccde5887/image/eb71a242-4475-492a-b448-b8cb1f9c56af.png',
-          completedAt: new Date().toISOString(),
-          progress: 100
-        }
-
-        setGenerationHistory(prevHistory => [completedGeneration, ...prevHistory])
-        saveGenerationToHistory(completedGeneration)
-
-        return prev.filter(g => g.id !== generationId)
-      })
-    }, delay)
+  const retryGeneration = useCallback((generation: Generation) => {
+    return generationStore.generate(generation.prompt, generation.config)
   }, [])
 
-  const cancelGeneration = useCallback((id: string) => {
-    setActiveGenerations(prev => {
-      const generation = prev.find(g => g.id === id)
-      if (!generation) return prev
-
-      const cancelledGeneration: Generation = {
-        ...generation,
-        status: 'failed',
-        error: 'Cancelled by user',
-        completedAt: new Date().toISOString()
-      }
-
-      setGenerationHistory(prevHistory => [cancelledGeneration, ...prevHistory])
-      saveGenerationToHistory(cancelledGeneration)
-
-      return prev.filter(g => g.id !== id)
-    })
+  const clearHistory = useCallback(() => {
+    return generationStore.clearHistory()
   }, [])
 
-  const retryGeneration = useCallback(async (generation: Generation): Promise<boolean> => {
-    return await generateVideo(generation.prompt, generation.config)
-  }, [generateVideo])
-
-  const clearHistory = useCallback(() => {
-    setGenerationHistory([])
-    // Clear from localStorage is handled by the utility function
-    try {
-      localStorage.removeItem('video-generation-history')
-    } catch (error) {
-      console.error('Failed to clear history:', error)
-    }
+  const importHistory = useCallback((plan: ImportPlan, videos?: Map<string, Blob>) => {
+    return generationStore.importHistory(plan, videos)
   }, [])
 
   const getGenerationById = useCallback((id: string): Generation | undefined => {
@@ -220,30 +78,50 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
     return activeGenerations.length
   }, [activeGenerations])
 
-  const getCompletedCount = useCallback((): number => {
-    return generationHistory.filter(g => g.status === 'completed').length
+  const countHistoryByStatus = useCallback((status: GenerationStatus): number => {
+    return generationHistory.filter(g => g.status === status).length
   }, [generationHistory])
 
+  const getCompletedCount = useCallback((): number => {
+    return countHistoryByStatus('completed')
+  }, [countHistoryByStatus])
+
   const getFailedCount = useCallback((): number => {
-    return generationHistory.filter(g => g.status === 'failed').length
-  }, [generationHistory])
+    return countHistoryByStatus('failed')
+  }, [countHistoryByStatus])
+
+  const getCancelledCount = useCallback((): number => {
+    return countHistoryByStatus('cancelled')
+  }, [countHistoryByStatus])
+
+  const getExpiredCount = useCallback((): number => {
+    return countHistoryByStatus('expired')
+  }, [countHistoryByStatus])
 
   return {
     // State
     activeGenerations,
     generationHistory,
-    isGenerating,
-    
+    historyLoaded,
+
     // Actions
     generateVideo,
     cancelGeneration,
     retryGeneration,
     clearHistory,
-    
+    importHistory,
+
     // Helpers
     getGenerationById,
     getActiveCount,
     getCompletedCount,
-    getFailedCount
+    getFailedCount,
+    getCancelledCount,
+    getExpiredCount
   }
-}
\ No newline at end of file
+}
+
+// Announces background generations as they finish, wherever the user is in the app
+export function useGenerationNotifications(notify: (generation: Generation) => void): void {
+  useEffect(() => generationStore.onTaskSettled(notify), [notify])
+}
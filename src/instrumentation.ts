@@ -0,0 +1,19 @@
+// Runs once when the server starts, so configuration problems show up in the logs
+// immediately instead of on the first generation request
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { loadServerConfig } = await import('@/lib/server/config')
+  const { getClientIdentityWarning } = await import('@/lib/server/client-key')
+  const config = loadServerConfig()
+
+  if (!config.valid) {
+    console.error(`Invalid server configuration:\n  ${config.issues.join('\n  ')}`)
+    return
+  }
+
+  const identityWarning = getClientIdentityWarning(config.config.clients)
+  if (identityWarning) {
+    console.warn(identityWarning)
+  }
+}
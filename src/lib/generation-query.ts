@@ -0,0 +1,85 @@
+import { z } from 'zod'
+import { GENERATION_STATUSES, type FieldError, type Generation, type GenerationStatus } from './video-schema'
+
+// How the history can be searched, filtered and sorted. The history view and the
+// /api/generations route share this so both list generations the same way.
+
+export const GENERATION_SORTS = ['newest', 'oldest', 'duration'] as const
+export const MAX_PAGE_SIZE = 100
+export const MAX_SAVE_BATCH_SIZE = 500
+
+export type GenerationSort = typeof GENERATION_SORTS[number]
+
+export interface GenerationFilters {
+  // Case-insensitive match against the prompt
+  search?: string
+  status?: GenerationStatus
+  sort?: GenerationSort
+}
+
+export const generationListQuerySchema = z.object({
+  search: z.string().trim().max(200, 'Search must be at most 200 characters').optional(),
+  status: z.enum(GENERATION_STATUSES, { errorMap: () => ({ message: 'Invalid status' }) }).optional(),
+  sort: z.enum(GENERATION_SORTS, { errorMap: () => ({ message: 'Sort must be newest, oldest or duration' }) })
+    .default('newest'),
+  page: z.coerce.number().int().positive('Page must be at least 1').default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE, `Page size must be at most ${MAX_PAGE_SIZE}`)
+    .default(20)
+})
+
+export type GenerationListQuery = z.infer<typeof generationListQuerySchema>
+
+export interface GenerationPage {
+  generations: Generation[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+// What every /api/generations endpoint answers with; each fills in the fields it uses
+export interface GenerationsResponse extends Partial<GenerationPage> {
+  success: boolean
+  generation?: Generation
+  // How many generations a POST saved
+  saved?: number
+  // IDs a POST left alone because it would have changed them
+  rejected?: string[]
+  error?: string
+  errors?: FieldError[]
+}
+
+const compareGenerations = (sort: GenerationSort) => (a: Generation, b: Generation): number => {
+  // Timestamps may carry any UTC offset, so compare instants rather than strings
+  const newestFirst = Date.parse(b.createdAt) - Date.parse(a.createdAt)
+  switch (sort) {
+    case 'oldest':
+      return -newestFirst
+    case 'duration':
+      // Longest first, newest first among equals so pages stay stable
+      return b.config.duration - a.config.duration || newestFirst
+    default:
+      return newestFirst
+  }
+}
+
+export const filterAndSortGenerations = (generations: Generation[], filters: GenerationFilters): Generation[] => {
+  const { search = '', status, sort = 'newest' } = filters
+  const term = search.toLowerCase()
+
+  return generations
+    .filter(generation => generation.prompt.toLowerCase().includes(term))
+    .filter(generation => !status || generation.status === status)
+    .sort(compareGenerations(sort))
+}
+
+export const paginateGenerations = (generations: Generation[], query: GenerationListQuery): GenerationPage => {
+  const { page, pageSize } = query
+  const matches = filterAndSortGenerations(generations, query)
+
+  return {
+    generations: matches.slice((page - 1) * pageSize, page * pageSize),
+    total: matches.length,
+    page,
+    pageSize
+  }
+}
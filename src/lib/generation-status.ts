@@ -0,0 +1,116 @@
+import type { Generation, GenerationStatus, VideoGenerationResponse } from './video-schema'
+
+// The generation lifecycle shared by the server task store and the client state:
+//
+//   queued -> submitted -> processing -> completed
+//                                     -> failed | cancelled | expired
+//
+// Jobs only move forward but may skip ahead (a provider can finish before ever
+// reporting progress), can leave the pipeline from any active state, and never leave
+// a terminal state.
+const TRANSITIONS: Record<GenerationStatus, readonly GenerationStatus[]> = {
+  queued: ['submitted', 'processing', 'completed', 'failed', 'cancelled', 'expired'],
+  submitted: ['processing', 'completed', 'failed', 'cancelled', 'expired'],
+  processing: ['completed', 'failed', 'cancelled', 'expired'],
+  completed: [],
+  failed: [],
+  cancelled: [],
+  expired: []
+}
+
+export const ACTIVE_STATUSES = ['queued', 'submitted', 'processing'] as const
+export const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled', 'expired'] as const
+
+export type ActiveStatus = typeof ACTIVE_STATUSES[number]
+export type TerminalStatus = typeof TERMINAL_STATUSES[number]
+
+export class InvalidTransitionError extends Error {
+  from: GenerationStatus
+  to: GenerationStatus
+
+  constructor(from: GenerationStatus, to: GenerationStatus) {
+    super(`Invalid generation status transition from ${from} to ${to}`)
+    this.name = 'InvalidTransitionError'
+    this.from = from
+    this.to = to
+  }
+}
+
+export const isTerminalStatus = (status: GenerationStatus): status is TerminalStatus => {
+  return (TERMINAL_STATUSES as readonly GenerationStatus[]).includes(status)
+}
+
+export const isActiveStatus = (status: GenerationStatus): status is ActiveStatus => {
+  return !isTerminalStatus(status)
+}
+
+// Staying in the same active state is allowed so progress updates need no special case
+export const canTransition = (from: GenerationStatus, to: GenerationStatus): boolean => {
+  if (from === to) return isActiveStatus(from)
+  return TRANSITIONS[from].includes(to)
+}
+
+export const assertTransition = (from: GenerationStatus, to: GenerationStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to)
+  }
+}
+
+// Moves anything with a status to a new one, throwing on transitions the lifecycle forbids
+export const transition = <T extends { status: GenerationStatus }>(
+  item: T,
+  to: GenerationStatus,
+  updates: Partial<Omit<T, 'status'>> = {}
+): T => {
+  assertTransition(item.status, to)
+  return { ...item, ...updates, status: to }
+}
+
+// Folds an in-progress task update into a generation. Out-of-order updates that would
+// move the generation backwards are ignored.
+export const applyTaskUpdate = (generation: Generation, update: VideoGenerationResponse): Generation => {
+  const status = update.status && isActiveStatus(update.status) ? update.status : generation.status
+  if (!canTransition(generation.status, status)) return generation
+
+  return transition(generation, status, {
+    taskId: update.taskId ?? generation.taskId,
+    startedAt: generation.startedAt ?? (status === 'queued' ? undefined : new Date().toISOString()),
+    stage: update.stage,
+    queuePosition: update.queuePosition,
+    estimatedTime: update.estimatedTime,
+    progress: Math.max(generation.progress, update.progress ?? 0)
+  })
+}
+
+// Moves a generation to the terminal state its final task response describes
+export const finishGeneration = (generation: Generation, response: VideoGenerationResponse): Generation => {
+  const completedAt = new Date().toISOString()
+
+  if (response.status === 'completed' && response.videoUrl) {
+    return transition(generation, 'completed', {
+      videoUrl: response.videoUrl,
+      stage: undefined,
+      estimatedTime: undefined,
+      completedAt,
+      progress: 100
+    })
+  }
+
+  if (response.status === 'cancelled' || response.status === 'expired') {
+    return transition(generation, response.status, {
+      error: response.error || (response.status === 'cancelled' ? 'Cancelled' : 'Generation timed out'),
+      errorCategory: response.errorCategory,
+      stage: undefined,
+      estimatedTime: undefined,
+      completedAt
+    })
+  }
+
+  return transition(generation, 'failed', {
+    error: response.error || 'Generation failed',
+    errorCategory: response.errorCategory ?? 'permanent',
+    stage: undefined,
+    estimatedTime: undefined,
+    completedAt
+  })
+}
@@ -0,0 +1,499 @@
+import { videoAPI, getMaxPollingTime, RateLimitError, VideoGenerationError, type VideoGenerationResponse } from './video-api'
+import { filterAndSortGenerations, MAX_PAGE_SIZE, MAX_SAVE_BATCH_SIZE } from './generation-query'
+import { applyTaskUpdate, finishGeneration, isActiveStatus, transition } from './generation-status'
+import { generationSync, withTaskLock, type GenerationSyncMessage } from './generation-sync'
+import { historyRepository } from './history-repository'
+import type { ImportPlan } from './history-transfer'
+import { captureSpriteSheet, captureVideoFrame } from './video-frames'
+import { getPublicAllowedHosts } from './video-hosts'
+import { createSharedGenerationSchema, type Generation, type GenerationConfig } from './video-schema'
+
+export interface GenerationStoreState {
+  // In submission order
+  activeGenerations: Generation[]
+  // Newest first
+  generationHistory: Generation[]
+  historyLoaded: boolean
+}
+
+type Listener = () => void
+type SettledListener = (generation: Generation) => void
+type VideoCachedListener = (id: string) => void
+
+// A task is followed for at least this long, however overdue it is when picked up
+// after a reload or from a closed tab, since the server may have finished it meanwhile
+const MIN_WATCH_MS = 60 * 1000
+
+// The server rejects a whole batch over one record it will not share, such as history
+// carried over from older versions with a provider URL on a host no longer allowed, so
+// those stay in this browser only
+const toShareable = (generations: Generation[]): Generation[] => {
+  const schema = createSharedGenerationSchema(getPublicAllowedHosts())
+  return generations.filter(generation => {
+    const result = schema.safeParse(generation)
+    if (!result.success) {
+      console.warn(`Not sharing generation ${generation.id}:`, result.error.issues[0].message)
+    }
+    return result.success
+  })
+}
+
+const generateId = (): string => {
+  return `gen_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+// The one place generations live on the client. Components read it through
+// useVideoGeneration; every finished generation, whatever its outcome, lands in the
+// persisted history, which is also shared through the server. Running generations are
+// persisted too and resumed on reload, and every change reaches the app's other tabs.
+export class GenerationStore {
+  private state: GenerationStoreState = {
+    activeGenerations: [],
+    generationHistory: [],
+    historyLoaded: false
+  }
+  private listeners = new Set<Listener>()
+  private settledListeners = new Set<SettledListener>()
+  private videoCachedListeners = new Set<VideoCachedListener>()
+  private loading: Promise<void> | null = null
+  // Generations this tab is following or waiting to follow
+  private watching = new Set<string>()
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  getSnapshot = (): GenerationStoreState => this.state
+
+  // Called when a task the store was following in the background finishes, so the
+  // UI can announce it wherever the user happens to be
+  onTaskSettled(listener: SettledListener): () => void {
+    this.settledListeners.add(listener)
+    return () => this.settledListeners.delete(listener)
+  }
+
+  // Called when a video lands in the local cache, here or in another tab, so views can
+  // switch to the cached copy
+  onVideoCached(listener: VideoCachedListener): () => void {
+    this.videoCachedListeners.add(listener)
+    return () => this.videoCachedListeners.delete(listener)
+  }
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      generationSync.subscribe(this.applyRemoteChange)
+      this.loading = Promise.all([historyRepository.list(), historyRepository.listActive()])
+        .then(([history, active]) => {
+          // Anything finished before the load completed goes first
+          const loadedIds = new Set(this.state.generationHistory.map(g => g.id))
+          this.setState({
+            generationHistory: [...this.state.generationHistory, ...history.filter(g => !loadedIds.has(g.id))],
+            historyLoaded: true
+          })
+          this.resume(active)
+          void this.syncWithServer()
+        })
+        .catch(error => {
+          console.error('Failed to load generation history:', error)
+          this.setState({ historyLoaded: true })
+        })
+    }
+    return this.loading
+  }
+
+  // Submits a new generation. Resolves with it once the server has accepted it (or
+  // finished it outright); on failure records it as failed and rethrows the error.
+  // Throttled requests never became a job, so they are dropped rather than recorded.
+  async generate(prompt: string, config: GenerationConfig): Promise<Generation> {
+    const generation: Generation = {
+      id: generateId(),
+      prompt: prompt.trim(),
+      config,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      progress: 0
+    }
+    this.setState({ activeGenerations: [...this.state.activeGenerations, generation] })
+    this.persistActive(generation)
+    generationSync.publish({ type: 'active-updated', generation })
+
+    try {
+      const response = await videoAPI.generateVideo({ prompt: generation.prompt, ...config })
+
+      // Cancelled, here or in another tab, while the request was in flight
+      if (!this.findActive(generation.id)) {
+        return this.cancelAccepted(generation, response)
+      }
+
+      if (response.success && response.status === 'completed' && response.videoUrl) {
+        const completedGeneration = finishGeneration(generation, response)
+        this.finish(completedGeneration)
+        return completedGeneration
+      }
+
+      if (response.success && response.status && isActiveStatus(response.status) && response.taskId) {
+        const acceptedGeneration = applyTaskUpdate(generation, response)
+        this.updateActive(acceptedGeneration)
+        void this.watch(acceptedGeneration.id, response.taskId)
+        return acceptedGeneration
+      }
+
+      throw VideoGenerationError.fromResponse(response, 'Failed to generate video')
+    } catch (error) {
+      // Already recorded as cancelled, which stands
+      if (!this.findActive(generation.id)) throw error
+
+      if (error instanceof RateLimitError) {
+        this.discard(generation.id)
+        throw error
+      }
+
+      this.finish(transition(generation, 'failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCategory: error instanceof VideoGenerationError ? error.category : 'transient',
+        completedAt: new Date().toISOString()
+      }))
+      throw error
+    }
+  }
+
+  // Stops an active generation on the server and records it as cancelled. Throws if
+  // the server could not cancel it, usually because it just finished. Without a task
+  // yet, generate() cancels the job once the server reports which one it started.
+  async cancel(id: string): Promise<void> {
+    const generation = this.findActive(id)
+    if (!generation) return
+
+    if (generation.taskId) {
+      const response = await videoAPI.cancelGeneration(generation.taskId)
+      if (!response.success) {
+        throw VideoGenerationError.fromResponse(response, 'Could not cancel generation')
+      }
+    }
+
+    const current = this.findActive(id)
+    if (current) {
+      this.finish(transition(current, 'cancelled', {
+        error: 'Cancelled by user',
+        completedAt: new Date().toISOString()
+      }))
+    }
+  }
+
+  // Clears this browser's history. The shared server history is left as it is; what was
+  // cleared stays hidden here rather than coming back with the next sync.
+  async clearHistory(): Promise<void> {
+    this.setState({ generationHistory: [] })
+    generationSync.publish({ type: 'history-cleared' })
+    await historyRepository.clear()
+  }
+
+  // Applies a previewed import, caching any videos bundled with it. Imported generations
+  // are shared with the server; a replace removes the others from this browser only.
+  async importHistory(plan: ImportPlan, videos: Map<string, Blob> = new Map()): Promise<void> {
+    const { mode, writes } = plan
+    const writtenIds = new Set(writes.map(g => g.id))
+
+    if (mode === 'replace') {
+      await historyRepository.replaceAll(writes)
+    } else {
+      await historyRepository.putAll(writes)
+    }
+    for (const [id, blob] of videos) {
+      if (!writtenIds.has(id)) continue
+      await historyRepository.putCachedVideo(id, blob)
+      this.announceCachedVideo(id)
+    }
+
+    // Merging into the current history, not the one the plan was made from, keeps
+    // anything that finished while the preview was open
+    const kept = mode === 'replace' ? [] : this.state.generationHistory.filter(g => !writtenIds.has(g.id))
+    this.setState({ generationHistory: filterAndSortGenerations([...kept, ...writes], {}) })
+    generationSync.publish({ type: 'history-imported' })
+
+    try {
+      for (let i = 0; i < writes.length; i += MAX_SAVE_BATCH_SIZE) {
+        await videoAPI.saveGenerations(writes.slice(i, i + MAX_SAVE_BATCH_SIZE))
+      }
+    } catch (error) {
+      console.warn('Could not share imported history with the server:', error)
+    }
+  }
+
+  updateHistoryItem(id: string, updates: Partial<Generation>): void {
+    const existing = this.state.generationHistory.find(g => g.id === id)
+    if (!existing) return
+
+    const updated = { ...existing, ...updates }
+    this.setState({
+      generationHistory: this.state.generationHistory.map(g => g.id === id ? updated : g)
+    })
+    generationSync.publish({ type: 'history-updated', generation: updated })
+    historyRepository.put(updated)
+      .catch(error => console.error('Failed to save generation to history:', error))
+    this.pushToServer([updated])
+  }
+
+  // Merges the server's history with this browser's. Nothing is deleted: generations
+  // only the server has are saved here, unless they were cleared from this browser, and
+  // ones only this browser has are sent up.
+  private async syncWithServer(): Promise<void> {
+    try {
+      const remote: Generation[] = []
+      for (let page = 1; ; page++) {
+        const result = await videoAPI.listGenerations({ page, pageSize: MAX_PAGE_SIZE })
+        remote.push(...result.generations)
+        if (result.generations.length === 0 || remote.length >= result.total) break
+      }
+
+      const localIds = new Set(this.state.generationHistory.map(g => g.id))
+      const hiddenIds = await historyRepository.listHiddenIds()
+      const remoteIds = new Set(remote.map(g => g.id))
+      const added = remote.filter(g => !localIds.has(g.id) && !hiddenIds.has(g.id))
+      const missing = this.state.generationHistory.filter(g => !remoteIds.has(g.id))
+
+      if (added.length > 0) {
+        this.setState({ generationHistory: filterAndSortGenerations([...this.state.generationHistory, ...added], {}) })
+        await historyRepository.putAll(added)
+      }
+      const shareable = toShareable(missing)
+      for (let i = 0; i < shareable.length; i += MAX_SAVE_BATCH_SIZE) {
+        await videoAPI.saveGenerations(shareable.slice(i, i + MAX_SAVE_BATCH_SIZE))
+      }
+    } catch (error) {
+      console.warn('Could not sync generation history with the server:', error)
+    }
+  }
+
+  private pushToServer(generations: Generation[]): void {
+    const shareable = toShareable(generations)
+    if (shareable.length === 0) return
+
+    videoAPI.saveGenerations(shareable)
+      .catch(error => console.warn('Could not share generation with the server:', error))
+  }
+
+  // Mirrors a change made in another tab. That tab has already saved it, so this only
+  // updates what this tab shows.
+  private applyRemoteChange = (message: GenerationSyncMessage): void => {
+    const { activeGenerations, generationHistory } = this.state
+
+    switch (message.type) {
+      case 'active-updated': {
+        const { generation } = message
+        // A late progress update for something that has since finished
+        if (generationHistory.some(g => g.id === generation.id)) return
+
+        this.setState({
+          activeGenerations: this.findActive(generation.id)
+            ? activeGenerations.map(g => g.id === generation.id ? generation : g)
+            : [...activeGenerations, generation]
+        })
+        // Queues behind the other tab's lock, so this tab takes over if that one closes
+        if (generation.taskId) {
+          void this.watch(generation.id, generation.taskId)
+        }
+        break
+      }
+      case 'settled':
+        this.setState({
+          activeGenerations: activeGenerations.filter(g => g.id !== message.generation.id),
+          generationHistory: [message.generation, ...generationHistory.filter(g => g.id !== message.generation.id)]
+        })
+        break
+      case 'discarded':
+        this.setState({ activeGenerations: activeGenerations.filter(g => g.id !== message.id) })
+        break
+      case 'history-updated':
+        this.setState({
+          generationHistory: generationHistory.map(g => g.id === message.generation.id ? message.generation : g)
+        })
+        break
+      case 'video-cached':
+        this.videoCachedListeners.forEach(listener => listener(message.id))
+        break
+      case 'history-cleared':
+        this.setState({ generationHistory: [] })
+        break
+      case 'history-imported':
+        historyRepository.list()
+          .then(generationHistory => this.setState({ generationHistory }))
+          .catch(error => console.error('Failed to reload generation history:', error))
+        break
+    }
+  }
+
+  // Picks up generations that were still running when the page was last closed
+  private resume(generations: Generation[]): void {
+    const resumed = generations.filter(generation => !this.findActive(generation.id))
+    if (resumed.length === 0) return
+
+    this.setState({ activeGenerations: [...resumed, ...this.state.activeGenerations] })
+
+    for (const generation of resumed) {
+      if (generation.taskId) {
+        void this.watch(generation.id, generation.taskId)
+      } else {
+        // The page closed before the server answered, so there is no task to follow
+        this.finish(transition(generation, 'failed', {
+          error: 'Interrupted before the server accepted the generation',
+          errorCategory: 'transient',
+          completedAt: new Date().toISOString()
+        }))
+      }
+    }
+  }
+
+  // Follows the server task until it finishes, then records the outcome. Only one tab
+  // follows a task at a time; the others wait their turn and usually find it settled.
+  private async watch(id: string, taskId: string): Promise<void> {
+    if (this.watching.has(id)) return
+    this.watching.add(id)
+    try {
+      await withTaskLock(taskId, () => this.follow(id, taskId))
+    } finally {
+      this.watching.delete(id)
+    }
+  }
+
+  // The first update reports where the task stands, so a generation picked up part way
+  // through catches up at once
+  private async follow(id: string, taskId: string): Promise<void> {
+    const generation = this.findActive(id)
+    if (!generation) return
+
+    // The budget covers rendering, not time spent waiting behind other jobs in the
+    // server's queue, so it only counts from when the job started
+    const elapsedMs = generation.startedAt ? Date.now() - new Date(generation.startedAt).getTime() : 0
+    const maxWaitMs = getMaxPollingTime(generation.config.duration, generation.config.quality) - elapsedMs
+
+    let response: VideoGenerationResponse
+    try {
+      response = await videoAPI.watchTask(taskId, {
+        maxWaitMs: Math.max(maxWaitMs, MIN_WATCH_MS),
+        queued: generation.status === 'queued',
+        onUpdate: update => {
+          const current = this.findActive(id)
+          if (current) this.updateActive(applyTaskUpdate(current, update))
+        }
+      })
+    } catch (error) {
+      response = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCategory: 'transient'
+      }
+    }
+
+    // Already cancelled from the queue, or settled by another tab
+    const current = this.findActive(id)
+    if (!current) return
+
+    // Giving up here does not stop the server, so cancel the job rather than let it keep
+    // spending credits on a video nobody will see. A task the server already expired
+    // just answers that it is finished.
+    if (response.status === 'expired') {
+      videoAPI.cancelGeneration(taskId)
+        .catch(error => console.error(`Failed to cancel task ${taskId}:`, error))
+    }
+
+    const finishedGeneration = finishGeneration(current, response)
+    this.finish(finishedGeneration)
+    this.settledListeners.forEach(listener => listener(finishedGeneration))
+  }
+
+  private finish(generation: Generation): void {
+    this.setState({
+      activeGenerations: this.state.activeGenerations.filter(g => g.id !== generation.id),
+      generationHistory: [generation, ...this.state.generationHistory.filter(g => g.id !== generation.id)]
+    })
+    generationSync.publish({ type: 'settled', generation })
+
+    historyRepository.archive(generation)
+      .then(() => generation.status === 'completed' ? historyRepository.cacheVideo(generation) : false)
+      .then(cached => {
+        if (cached) this.announceCachedVideo(generation.id)
+      })
+      .catch(error => console.error('Failed to save generation to history:', error))
+    this.pushToServer([generation])
+
+    if (generation.status === 'completed') {
+      this.capturePreviews(generation)
+    }
+  }
+
+  // Cancel was clicked while the generation was being submitted. It is already recorded
+  // as cancelled, so stop whatever job the server started for it.
+  private cancelAccepted(generation: Generation, response: VideoGenerationResponse): Generation {
+    const { taskId, status } = response
+    if (response.success && taskId && status && isActiveStatus(status)) {
+      videoAPI.cancelGeneration(taskId)
+        .then(result => {
+          if (!result.success) console.warn(`Could not cancel task ${taskId}:`, result.error)
+        })
+        .catch(error => console.error(`Failed to cancel task ${taskId}:`, error))
+    }
+
+    return this.state.generationHistory.find(g => g.id === generation.id) ?? generation
+  }
+
+  private announceCachedVideo(id: string): void {
+    this.videoCachedListeners.forEach(listener => listener(id))
+    generationSync.publish({ type: 'video-cached', id })
+  }
+
+  private discard(id: string): void {
+    this.setState({ activeGenerations: this.state.activeGenerations.filter(g => g.id !== id) })
+    generationSync.publish({ type: 'discarded', id })
+    historyRepository.deleteActive(id)
+      .catch(error => console.error('Failed to remove active generation:', error))
+  }
+
+  // Previews fill in once captured; history cards show a placeholder until then
+  private capturePreviews(generation: Generation): void {
+    const { videoUrl } = generation
+    if (!videoUrl) return
+
+    captureVideoFrame(videoUrl)
+      .then(posterUrl => this.updateHistoryItem(generation.id, { posterUrl }))
+      .catch(error => console.error('Poster frame capture failed:', error))
+
+    captureSpriteSheet(videoUrl)
+      .then(previewSprite => this.updateHistoryItem(generation.id, { previewSprite }))
+      .catch(error => console.error('Preview sprite capture failed:', error))
+  }
+
+  private findActive(id: string): Generation | undefined {
+    return this.state.activeGenerations.find(g => g.id === id)
+  }
+
+  // Late updates for a generation that has since settled or been dropped are ignored,
+  // so they cannot bring it back
+  private updateActive(generation: Generation): void {
+    const previous = this.findActive(generation.id)
+    if (!previous) return
+
+    this.setState({
+      activeGenerations: this.state.activeGenerations.map(g => g.id === generation.id ? generation : g)
+    })
+    generationSync.publish({ type: 'active-updated', generation })
+
+    // A reload needs the task and its status, not every progress tick
+    if (previous.taskId !== generation.taskId || previous.status !== generation.status) {
+      this.persistActive(generation)
+    }
+  }
+
+  private persistActive(generation: Generation): void {
+    historyRepository.putActive(generation)
+      .catch(error => console.error('Failed to save active generation:', error))
+  }
+
+  private setState(updates: Partial<GenerationStoreState>): void {
+    this.state = { ...this.state, ...updates }
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const generationStore = new GenerationStore()
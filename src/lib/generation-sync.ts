@@ -0,0 +1,111 @@
+import { generationSchema, type Generation } from './video-schema'
+
+// What one tab tells the others. Messages about a generation carry all of it, so
+// applying them never depends on what the receiving tab already had.
+export type GenerationSyncMessage =
+  | { type: 'active-updated'; generation: Generation }
+  | { type: 'settled'; generation: Generation }
+  // Dropped without being recorded, because the server never accepted it
+  | { type: 'discarded'; id: string }
+  | { type: 'history-updated'; generation: Generation }
+  // Its video is now in the local cache
+  | { type: 'video-cached'; id: string }
+  | { type: 'history-cleared' }
+  // Too much changed to describe; read the history again
+  | { type: 'history-imported' }
+
+type SyncListener = (message: GenerationSyncMessage) => void
+
+const CHANNEL_NAME = 'video-generation-sync'
+
+// Browsers without BroadcastChannel get the same messages through storage events,
+// which fire in every tab except the one that wrote the key
+const STORAGE_KEY = 'video-generation-sync'
+
+// Tabs on an older release may send records the current schema rejects
+const parseMessage = (data: unknown): GenerationSyncMessage | null => {
+  if (!data || typeof data !== 'object' || !('type' in data)) return null
+
+  if (data.type === 'history-cleared' || data.type === 'history-imported') return { type: data.type }
+
+  if ((data.type === 'discarded' || data.type === 'video-cached') && 'id' in data && typeof data.id === 'string') return { type: data.type, id: data.id }
+
+  if (data.type === 'active-updated' || data.type === 'settled' || data.type === 'history-updated') {
+    const result = generationSchema.safeParse('generation' in data ? data.generation : undefined)
+    if (result.success) return { type: data.type, generation: result.data }
+  }
+
+  console.warn('Ignoring unrecognised generation sync message:', data)
+  return null
+}
+
+// Passes generation changes between tabs of the same origin. The records themselves
+// are written to IndexedDB one at a time by whichever tab made the change, so tabs
+// never overwrite each other's history; this only keeps their in-memory views current.
+export class GenerationSync {
+  private listeners = new Set<SyncListener>()
+  private channel: BroadcastChannel | null = null
+  private connected = false
+
+  subscribe(listener: SyncListener): () => void {
+    this.connect()
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  publish(message: GenerationSyncMessage): void {
+    if (!this.connect()) return
+
+    if (this.channel) {
+      this.channel.postMessage(message)
+      return
+    }
+
+    try {
+      // The timestamp makes every write a change, so repeated messages still fire
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }))
+    } catch (error) {
+      console.warn('Failed to share generation update with other tabs:', error)
+    }
+  }
+
+  // False outside the browser, where there are no other tabs to talk to
+  private connect(): boolean {
+    if (typeof window === 'undefined') return false
+    if (this.connected) return true
+    this.connected = true
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.onmessage = event => this.receive(event.data)
+    } else {
+      window.addEventListener('storage', event => {
+        if (event.key !== STORAGE_KEY || !event.newValue) return
+        try {
+          this.receive(JSON.parse(event.newValue).message)
+        } catch (error) {
+          console.warn('Ignoring unreadable generation sync message:', error)
+        }
+      })
+    }
+    return true
+  }
+
+  private receive(data: unknown): void {
+    const message = parseMessage(data)
+    if (message) {
+      this.listeners.forEach(listener => listener(message))
+    }
+  }
+}
+
+export const generationSync = new GenerationSync()
+
+// Runs callback while holding a lock on the task shared by every tab, so only one tab
+// follows a task at a time. Tabs waiting on it take over if the holder closes.
+export const withTaskLock = <T>(taskId: string, callback: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return callback()
+  }
+  return navigator.locks.request(`video-generation-task:${taskId}`, callback)
+}
@@ -0,0 +1,344 @@
+import { generationSchema, type Generation, type GenerationStatus } from './video-schema'
+
+const DB_NAME = 'video-generation'
+const GENERATIONS_STORE = 'generations'
+const VIDEOS_STORE = 'videos'
+const ACTIVE_STORE = 'activeGenerations'
+const HIDDEN_STORE = 'hiddenGenerations'
+
+// Where history lived before it moved to IndexedDB
+const LEGACY_HISTORY_KEY = 'video-generation-history'
+
+export interface CachedVideo {
+  id: string
+  blob: Blob
+  cachedAt: string
+}
+
+// A generation removed from this browser's history, kept so syncing with the shared
+// history does not bring it back
+interface HiddenGeneration {
+  id: string
+  hiddenAt: string
+}
+
+export interface HistoryQuery {
+  status?: GenerationStatus
+  style?: string
+  limit?: number
+}
+
+// Each migration upgrades the database from the version before it. Never change one
+// that has shipped; add another instead.
+const MIGRATIONS: Array<(transaction: IDBTransaction) => void> = [
+  // 1: generations keyed by ID, indexed for the history views' sorting and filters
+  transaction => {
+    const generations = transaction.db.createObjectStore(GENERATIONS_STORE, { keyPath: 'id' })
+    generations.createIndex('createdAt', 'createdAt')
+    generations.createIndex('status', 'status')
+    generations.createIndex('style', 'config.style')
+  },
+  // 2: local copies of finished videos, so history outlives expiring provider URLs
+  transaction => {
+    transaction.db.createObjectStore(VIDEOS_STORE, { keyPath: 'id' })
+  },
+  // 3: bring over history that earlier versions kept in localStorage
+  transaction => {
+    const generations = transaction.objectStore(GENERATIONS_STORE)
+    readLegacyHistory().forEach(generation => generations.put(generation))
+    transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_HISTORY_KEY))
+  },
+  // 4: generations still running, so they can be picked up again after a reload
+  transaction => {
+    transaction.db.createObjectStore(ACTIVE_STORE, { keyPath: 'id' })
+  },
+  // 5: generations cleared from this browser but still in the shared history
+  transaction => {
+    transaction.db.createObjectStore(HIDDEN_STORE, { keyPath: 'id' })
+  }
+]
+
+const DB_VERSION = MIGRATIONS.length
+
+const readLegacyHistory = (): Generation[] => {
+  try {
+    const data = localStorage.getItem(LEGACY_HISTORY_KEY)
+    return data ? parseGenerations(JSON.parse(data)) : []
+  } catch (error) {
+    console.error('Failed to read legacy generation history:', error)
+    return []
+  }
+}
+
+// Drops anything that does not match the current schema rather than failing the whole read
+const parseGenerations = (records: unknown): Generation[] => {
+  if (!Array.isArray(records)) return []
+
+  return records.flatMap(record => {
+    const result = generationSchema.safeParse(record)
+    if (!result.success) {
+      console.warn('Skipping invalid generation record:', result.error.issues)
+      return []
+    }
+    return [result.data]
+  })
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const isQuotaExceeded = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'QuotaExceededError'
+}
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+  })
+}
+
+// Generation history in IndexedDB: typed records, no size cap, and cached video files.
+// Generations still running are kept apart until they finish.
+export class HistoryRepository {
+  private database: Promise<IDBDatabase> | null = null
+
+  async list(query: HistoryQuery = {}): Promise<Generation[]> {
+    const { status, style, limit } = query
+    const store = await this.store(GENERATIONS_STORE, 'readonly')
+
+    let records: unknown[]
+    if (status || style) {
+      const index = store.index(status ? 'status' : 'style')
+      records = await requestToPromise(index.getAll(status ?? style))
+    } else {
+      records = await this.readNewestFirst(store.index('createdAt'), limit)
+    }
+
+    const generations = parseGenerations(records)
+      .filter(generation => !style || generation.config.style === style)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+    return limit === undefined ? generations : generations.slice(0, limit)
+  }
+
+  async get(id: string): Promise<Generation | undefined> {
+    const store = await this.store(GENERATIONS_STORE, 'readonly')
+    const [generation] = parseGenerations([await requestToPromise(store.get(id))].filter(Boolean))
+    return generation
+  }
+
+  async count(status?: GenerationStatus): Promise<number> {
+    const store = await this.store(GENERATIONS_STORE, 'readonly')
+    return requestToPromise(status ? store.index('status').count(status) : store.count())
+  }
+
+  async put(generation: Generation): Promise<void> {
+    await this.putAll([generation])
+  }
+
+  async putAll(generations: Generation[]): Promise<void> {
+    const transaction = (await this.open()).transaction(GENERATIONS_STORE, 'readwrite')
+    const store = transaction.objectStore(GENERATIONS_STORE)
+    generations.forEach(generation => store.put(generation))
+    await transactionDone(transaction)
+  }
+
+  async delete(id: string): Promise<void> {
+    const transaction = (await this.open()).transaction([GENERATIONS_STORE, VIDEOS_STORE], 'readwrite')
+    transaction.objectStore(GENERATIONS_STORE).delete(id)
+    transaction.objectStore(VIDEOS_STORE).delete(id)
+    await transactionDone(transaction)
+  }
+
+  // Empties this browser's history and hides everything that was in it
+  async clear(): Promise<void> {
+    const transaction = (await this.open()).transaction([GENERATIONS_STORE, VIDEOS_STORE, HIDDEN_STORE], 'readwrite')
+    const store = transaction.objectStore(GENERATIONS_STORE)
+    const hidden = transaction.objectStore(HIDDEN_STORE)
+    const hiddenAt = new Date().toISOString()
+
+    store.getAllKeys().onsuccess = event => {
+      const keys = (event.target as IDBRequest<IDBValidKey[]>).result
+      keys.forEach(key => hidden.put({ id: String(key), hiddenAt } satisfies HiddenGeneration))
+      store.clear()
+    }
+    transaction.objectStore(VIDEOS_STORE).clear()
+    await transactionDone(transaction)
+  }
+
+  async listHiddenIds(): Promise<Set<string>> {
+    const store = await this.store(HIDDEN_STORE, 'readonly')
+    const keys = await requestToPromise(store.getAllKeys())
+    return new Set(keys.map(String))
+  }
+
+  // Oldest first, the order they were submitted in
+  async listActive(): Promise<Generation[]> {
+    const store = await this.store(ACTIVE_STORE, 'readonly')
+    return parseGenerations(await requestToPromise(store.getAll()))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+
+  async putActive(generation: Generation): Promise<void> {
+    const transaction = (await this.open()).transaction(ACTIVE_STORE, 'readwrite')
+    transaction.objectStore(ACTIVE_STORE).put(generation)
+    await transactionDone(transaction)
+  }
+
+  async deleteActive(id: string): Promise<void> {
+    const transaction = (await this.open()).transaction(ACTIVE_STORE, 'readwrite')
+    transaction.objectStore(ACTIVE_STORE).delete(id)
+    await transactionDone(transaction)
+  }
+
+  // Moves a finished generation from the active list into history in one step, so a
+  // reload can never see it in both or neither
+  async archive(generation: Generation): Promise<void> {
+    const transaction = (await this.open()).transaction([ACTIVE_STORE, GENERATIONS_STORE], 'readwrite')
+    transaction.objectStore(ACTIVE_STORE).delete(generation.id)
+    transaction.objectStore(GENERATIONS_STORE).put(generation)
+    await transactionDone(transaction)
+  }
+
+  // Swaps the whole history for these generations in one step. Generations that drop
+  // out are hidden, and cached videos are kept only for generations that are still there.
+  async replaceAll(generations: Generation[]): Promise<void> {
+    const transaction = (await this.open()).transaction([GENERATIONS_STORE, VIDEOS_STORE, HIDDEN_STORE], 'readwrite')
+    const store = transaction.objectStore(GENERATIONS_STORE)
+    const videos = transaction.objectStore(VIDEOS_STORE)
+    const hidden = transaction.objectStore(HIDDEN_STORE)
+    const ids = new Set(generations.map(generation => generation.id))
+    const hiddenAt = new Date().toISOString()
+
+    store.getAllKeys().onsuccess = event => {
+      const keys = (event.target as IDBRequest<IDBValidKey[]>).result
+      keys.filter(key => !ids.has(String(key)))
+        .forEach(key => hidden.put({ id: String(key), hiddenAt } satisfies HiddenGeneration))
+      store.clear()
+      generations.forEach(generation => {
+        store.put(generation)
+        hidden.delete(generation.id)
+      })
+    }
+    videos.getAllKeys().onsuccess = event => {
+      const keys = (event.target as IDBRequest<IDBValidKey[]>).result
+      keys.filter(key => !ids.has(String(key))).forEach(key => videos.delete(key))
+    }
+    await transactionDone(transaction)
+  }
+
+  // Downloads a finished generation's video into the cache. Resolves false when there
+  // is nothing to cache or the file is larger than maxBytes.
+  async cacheVideo(generation: Generation, maxBytes: number = 200 * 1024 * 1024): Promise<boolean> {
+    if (!generation.videoUrl) return false
+
+    const response = await fetch(generation.videoUrl)
+    if (!response.ok) {
+      throw new Error(`Video download failed: ${response.status}`)
+    }
+    if (Number(response.headers.get('content-length')) > maxBytes) return false
+
+    const blob = await response.blob()
+    if (blob.size > maxBytes) return false
+
+    await this.putCachedVideo(generation.id, blob)
+    return true
+  }
+
+  // Makes room by evicting the oldest cached videos when the browser's storage quota
+  // is reached. Throws if the video does not fit even then.
+  async putCachedVideo(id: string, blob: Blob): Promise<void> {
+    const video: CachedVideo = { id, blob, cachedAt: new Date().toISOString() }
+
+    while (true) {
+      try {
+        const transaction = (await this.open()).transaction(VIDEOS_STORE, 'readwrite')
+        transaction.objectStore(VIDEOS_STORE).put(video)
+        await transactionDone(transaction)
+        return
+      } catch (error) {
+        if (!isQuotaExceeded(error) || !(await this.evictOldestVideo(id))) throw error
+      }
+    }
+  }
+
+  async getCachedVideo(id: string): Promise<CachedVideo | undefined> {
+    const store = await this.store(VIDEOS_STORE, 'readonly')
+    return requestToPromise<CachedVideo | undefined>(store.get(id))
+  }
+
+  // Resolves false when there was nothing else to evict
+  private async evictOldestVideo(keepId: string): Promise<boolean> {
+    const transaction = (await this.open()).transaction(VIDEOS_STORE, 'readwrite')
+    const store = transaction.objectStore(VIDEOS_STORE)
+    const videos = await requestToPromise<CachedVideo[]>(store.getAll())
+    const oldest = videos
+      .filter(video => video.id !== keepId)
+      .sort((a, b) => a.cachedAt.localeCompare(b.cachedAt))[0]
+
+    if (oldest) store.delete(oldest.id)
+    await transactionDone(transaction)
+    return oldest !== undefined
+  }
+
+  private readNewestFirst(index: IDBIndex, limit?: number): Promise<unknown[]> {
+    const records: unknown[] = []
+    const request = index.openCursor(null, 'prev')
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor || (limit !== undefined && records.length >= limit)) {
+          resolve(records)
+          return
+        }
+        records.push(cursor.value)
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.open()).transaction(name, mode).objectStore(name)
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = event => {
+          const transaction = request.transaction
+          if (!transaction) return
+          for (let version = event.oldVersion; version < DB_VERSION; version++) {
+            MIGRATIONS[version](transaction)
+          }
+        }
+        request.onsuccess = () => {
+          const database = request.result
+          // Another tab is upgrading; step aside so it is not blocked
+          database.onversionchange = () => {
+            database.close()
+            this.database = null
+          }
+          resolve(database)
+        }
+        request.onerror = () => reject(request.error)
+        request.onblocked = () => console.warn('Generation history upgrade is waiting for other tabs to close')
+      }).catch(error => {
+        this.database = null
+        throw error
+      })
+    }
+    return this.database
+  }
+}
+
+export const historyRepository = new HistoryRepository()
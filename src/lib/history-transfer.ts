@@ -0,0 +1,281 @@
+import { z } from 'zod'
+import { isTerminalStatus } from './generation-status'
+import { getPublicAllowedHosts } from './video-hosts'
+import { createSharedGenerationSchema, generationSchema, type Generation } from './video-schema'
+import { createZip, isZipFile, readZip, type ZipEntry } from './zip'
+
+// Export and import of generation history. Exports are versioned JSON, optionally in a
+// ZIP alongside the video files; imports validate every record and are previewed as a
+// plan before anything is written.
+
+export const HISTORY_EXPORT_FORMAT = 'video-generation-history'
+export const HISTORY_EXPORT_VERSION = 1
+
+// Where things live inside a ZIP export
+const ZIP_HISTORY_FILE = 'history.json'
+const ZIP_VIDEO_DIRECTORY = 'videos/'
+
+export interface HistoryExport {
+  format: typeof HISTORY_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  generations: Generation[]
+}
+
+// Records are left unchecked here and validated one at a time, so one bad record does
+// not reject the whole file
+const historyExportSchema = z.object({
+  format: z.literal(HISTORY_EXPORT_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  generations: z.array(z.unknown())
+})
+
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'HistoryImportError'
+  }
+}
+
+export interface InvalidRecord {
+  // Position in the file, counting from 1
+  position: number
+  message: string
+}
+
+export interface ParsedHistoryImport {
+  generations: Generation[]
+  invalid: InvalidRecord[]
+  // Video files bundled in a ZIP export, by generation ID
+  videos: Map<string, Blob>
+  // Missing from exports made before the format was versioned
+  exportedAt?: string
+}
+
+export type ImportMode = 'merge' | 'replace'
+export type ConflictResolution = 'keep-existing' | 'use-imported'
+
+export interface ImportConflict {
+  existing: Generation
+  imported: Generation
+}
+
+export interface ImportPlan {
+  mode: ImportMode
+  resolution: ConflictResolution
+  // In the file but not in the history
+  added: Generation[]
+  // Same ID in both, with different contents
+  conflicts: ImportConflict[]
+  // Same ID in both, identical
+  unchanged: number
+  // Replace only: in the history but not in the file
+  removed: Generation[]
+  // The records the import will write
+  writes: Generation[]
+}
+
+export interface HistoryZipExport {
+  blob: Blob
+  // Completed generations whose video could not be fetched
+  missingVideos: number
+}
+
+const VIDEO_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov'
+}
+
+export const createHistoryExport = (generations: Generation[]): HistoryExport => ({
+  format: HISTORY_EXPORT_FORMAT,
+  version: HISTORY_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  generations
+})
+
+export const exportHistoryJson = (generations: Generation[]): Blob => {
+  return new Blob([JSON.stringify(createHistoryExport(generations), null, 2)], { type: 'application/json' })
+}
+
+// getVideo resolves undefined, or throws, when a video cannot be included; the record is
+// still exported and keeps its original URL
+export const exportHistoryZip = async (
+  generations: Generation[],
+  getVideo: (generation: Generation) => Promise<Blob | undefined>
+): Promise<HistoryZipExport> => {
+  const entries: ZipEntry[] = [{ name: ZIP_HISTORY_FILE, data: exportHistoryJson(generations) }]
+  let missingVideos = 0
+
+  for (const generation of generations) {
+    if (generation.status !== 'completed') continue
+
+    const video = await getVideo(generation).catch(error => {
+      console.warn(`Could not include video for ${generation.id}:`, error)
+      return undefined
+    })
+    if (!video) {
+      missingVideos++
+      continue
+    }
+
+    const extension = VIDEO_EXTENSIONS[video.type] ?? 'mp4'
+    entries.push({ name: `${ZIP_VIDEO_DIRECTORY}${generation.id}.${extension}`, data: video })
+  }
+
+  return { blob: await createZip(entries), missingVideos }
+}
+
+// History only holds finished generations, and imported ones are shared with the server,
+// so they are held to the same rules as the shared history
+const createImportedGenerationSchema = () => createSharedGenerationSchema(getPublicAllowedHosts()).refine(
+  generation => isTerminalStatus(generation.status),
+  { message: 'Only finished generations can be imported', path: ['status'] }
+)
+
+const parseRecords = (records: unknown[]): Pick<ParsedHistoryImport, 'generations' | 'invalid'> => {
+  // Later copies of the same ID win, as they would if imported one after another
+  const generations = new Map<string, Generation>()
+  const invalid: InvalidRecord[] = []
+  const schema = createImportedGenerationSchema()
+
+  records.forEach((record, index) => {
+    const result = schema.safeParse(record)
+    if (result.success) {
+      generations.set(result.data.id, result.data)
+    } else {
+      const [issue] = result.error.issues
+      invalid.push({ position: index + 1, message: `${issue.path.join('.') || 'record'}: ${issue.message}` })
+    }
+  })
+
+  return { generations: Array.from(generations.values()), invalid }
+}
+
+export const parseHistoryJson = (text: string): Omit<ParsedHistoryImport, 'videos'> => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new HistoryImportError('File is not valid JSON')
+  }
+
+  // Exports from before the format was versioned were a bare array of generations
+  if (Array.isArray(data)) {
+    return parseRecords(data)
+  }
+
+  const envelope = historyExportSchema.safeParse(data)
+  if (!envelope.success) {
+    throw new HistoryImportError('File is not a generation history export')
+  }
+  if (envelope.data.version > HISTORY_EXPORT_VERSION) {
+    throw new HistoryImportError('File was exported by a newer version of the app')
+  }
+
+  return { ...parseRecords(envelope.data.generations), exportedAt: envelope.data.exportedAt }
+}
+
+// Accepts either a JSON export or a ZIP export with videos
+export const readHistoryFile = async (file: Blob): Promise<ParsedHistoryImport> => {
+  if (!(await isZipFile(file))) {
+    return { ...parseHistoryJson(await file.text()), videos: new Map() }
+  }
+
+  let entries: ZipEntry[]
+  try {
+    entries = await readZip(file)
+  } catch (error) {
+    throw new HistoryImportError(error instanceof Error ? error.message : 'ZIP file could not be read')
+  }
+
+  const historyEntry = entries.find(entry => entry.name === ZIP_HISTORY_FILE)
+  if (!historyEntry) {
+    throw new HistoryImportError(`ZIP file has no ${ZIP_HISTORY_FILE}`)
+  }
+
+  const parsed = parseHistoryJson(await historyEntry.data.text())
+  const ids = new Set(parsed.generations.map(generation => generation.id))
+  const videos = new Map<string, Blob>()
+
+  for (const entry of entries) {
+    if (!entry.name.startsWith(ZIP_VIDEO_DIRECTORY)) continue
+    const fileName = entry.name.slice(ZIP_VIDEO_DIRECTORY.length)
+    const dot = fileName.lastIndexOf('.')
+    const id = dot > 0 ? fileName.slice(0, dot) : fileName
+    if (!ids.has(id)) continue
+
+    const type = Object.keys(VIDEO_EXTENSIONS).find(key => VIDEO_EXTENSIONS[key] === fileName.slice(dot + 1))
+    videos.set(id, new Blob([entry.data], { type: type ?? 'video/mp4' }))
+  }
+
+  return { ...parsed, videos }
+}
+
+// Parsing puts the keys in schema order, so records built by spreading compare equal to
+// the same records read back from a file
+const isSameGeneration = (a: Generation, b: Generation): boolean => {
+  return JSON.stringify(generationSchema.parse(a)) === JSON.stringify(generationSchema.parse(b))
+}
+
+// Works out what an import would do without changing anything, for the preview
+export const planHistoryImport = (
+  existing: Generation[],
+  imported: Generation[],
+  mode: ImportMode,
+  resolution: ConflictResolution
+): ImportPlan => {
+  const existingById = new Map(existing.map(generation => [generation.id, generation]))
+  const importedIds = new Set(imported.map(generation => generation.id))
+  const added: Generation[] = []
+  const conflicts: ImportConflict[] = []
+  let unchanged = 0
+
+  for (const generation of imported) {
+    const current = existingById.get(generation.id)
+    if (!current) {
+      added.push(generation)
+    } else if (isSameGeneration(current, generation)) {
+      unchanged++
+    } else {
+      conflicts.push({ existing: current, imported: generation })
+    }
+  }
+
+  if (mode === 'replace') {
+    return {
+      mode,
+      // Replacing takes the file as it is
+      resolution: 'use-imported',
+      added,
+      conflicts,
+      unchanged,
+      removed: existing.filter(generation => !importedIds.has(generation.id)),
+      writes: imported
+    }
+  }
+
+  return {
+    mode,
+    resolution,
+    added,
+    conflicts,
+    unchanged,
+    removed: [],
+    writes: resolution === 'use-imported' ? [...added, ...conflicts.map(conflict => conflict.imported)] : added
+  }
+}
+
+// Saves an export through the browser's normal download flow
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000)
+}
@@ -0,0 +1,25 @@
+import type { ByteRange } from './video-storage'
+
+// Parses a single-range `Range: bytes=...` header against an object of the given
+// size. Undefined means serve the whole object (no header, or one we do not support,
+// which RFC 9110 lets us ignore); null means the range cannot be satisfied.
+export const parseRangeHeader = (header: string | null, size: number): ByteRange | null | undefined => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/)
+  if (!match) return undefined
+
+  const [, startText, endText] = match
+  if (!startText && !endText) return undefined
+
+  // bytes=-500 is the last 500 bytes
+  if (!startText) {
+    const suffixLength = Number(endText)
+    if (suffixLength === 0 || size === 0) return null
+    return { start: Math.max(size - suffixLength, 0), end: size - 1 }
+  }
+
+  const start = Number(startText)
+  const end = endText ? Math.min(Number(endText), size - 1) : size - 1
+  if (start >= size || start > end) return null
+
+  return { start, end }
+}
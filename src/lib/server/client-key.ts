@@ -0,0 +1,71 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import type { NextRequest } from 'next/server'
+import type { ServerConfig } from './config'
+
+export type ClientIdentityConfig = ServerConfig['clients']
+
+const hashKey = (apiKey: string): Buffer => createHash('sha256').update(apiKey).digest()
+
+// Callers may identify themselves with an API key; only a hash of it is kept
+const getApiKey = (request: NextRequest): string | undefined => {
+  const apiKey = request.headers.get('x-api-key')
+  if (apiKey) return apiKey
+
+  const authorization = request.headers.get('authorization')
+  const match = authorization?.match(/^Bearer\s+(.+)$/i)
+  return match?.[1]
+}
+
+// Only keys listed in CLIENT_API_KEYS count; anything else could be made up per request
+const findConfiguredKey = (apiKey: string, apiKeys: string[]): Buffer | undefined => {
+  const hash = hashKey(apiKey)
+  return apiKeys.map(hashKey).find(configured => timingSafeEqual(configured, hash))
+}
+
+// Whether the caller sent one of the keys in CLIENT_API_KEYS, for changes that only
+// known clients may make
+export const hasConfiguredApiKey = (request: NextRequest, config: ClientIdentityConfig): boolean => {
+  const apiKey = getApiKey(request)
+  return apiKey !== undefined && findConfiguredKey(apiKey, config.apiKeys) !== undefined
+}
+
+// The client address as reported by something we trust. Next.js only fills in
+// X-Forwarded-For when the caller did not send one, so the header is ignored unless
+// proxies that append to it are configured; then the entry added by the outermost one
+// is the address it saw.
+const getClientAddress = (request: NextRequest, config: ClientIdentityConfig): string | undefined => {
+  if (config.ipHeader) {
+    return request.headers.get(config.ipHeader)?.trim() || undefined
+  }
+
+  if (config.trustedProxyHops > 0) {
+    const forwardedFor = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim())
+    if (forwardedFor) {
+      return forwardedFor[Math.max(forwardedFor.length - config.trustedProxyHops, 0)] || undefined
+    }
+  }
+
+  return undefined
+}
+
+// With none of these set every caller is 'anonymous', so all of them share one rate
+// limit bucket and one concurrency slot
+export const getClientIdentityWarning = (config: ClientIdentityConfig): string | undefined => {
+  if (config.apiKeys.length > 0 || config.ipHeader || config.trustedProxyHops > 0) return undefined
+  return 'No client identity configured: set CLIENT_API_KEYS, CLIENT_IP_HEADER or TRUSTED_PROXY_HOPS, ' +
+    'or every caller shares one set of per-user limits'
+}
+
+// Identifies the caller for per-user limits. There are no accounts, so this is the
+// configured API key the caller sent or, failing that, their trusted address. Callers
+// that cannot be told apart share one bucket.
+export const getClientKey = (request: NextRequest, config: ClientIdentityConfig): string => {
+  const apiKey = getApiKey(request)
+  const configuredKey = apiKey ? findConfiguredKey(apiKey, config.apiKeys) : undefined
+  if (configuredKey) {
+    return `key:${configuredKey.toString('hex').slice(0, 32)}`
+  }
+
+  const address = getClientAddress(request, config)
+  return address ? `ip:${address}` : 'anonymous'
+}
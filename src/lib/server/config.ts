@@ -0,0 +1,174 @@
+import { z } from 'zod'
+import { DEFAULT_VIDEO_ALLOWED_HOSTS, parseAllowedHosts } from '@/lib/video-hosts'
+import { processSingleton } from './process-singleton'
+
+// Unset and empty environment variables both mean "use the default"
+const fromEnv = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === '' ? undefined : value), schema)
+
+const envSchema = z.object({
+  VIDEO_PROVIDER: fromEnv(z.enum(['chat-completions', 'replicate', 'mock']).default('chat-completions')),
+  VIDEO_PROVIDER_ENDPOINT: fromEnv(z.string().url('must be a valid URL').optional()),
+  VIDEO_PROVIDER_API_KEY: fromEnv(z.string().optional()),
+  VIDEO_PROVIDER_CUSTOMER_ID: fromEnv(z.string().optional()),
+  VIDEO_MODEL: fromEnv(z.string().optional()),
+  VIDEO_PROVIDER_TIMEOUT_MS: fromEnv(z.coerce.number().int().positive().default(10 * 60 * 1000)),
+  VIDEO_PROVIDER_MAX_RETRIES: fromEnv(z.coerce.number().int().nonnegative().default(3)),
+  VIDEO_PROVIDER_RETRY_BASE_DELAY_MS: fromEnv(z.coerce.number().int().positive().default(1000)),
+  VIDEO_ALLOWED_HOSTS: fromEnv(z.string().default(DEFAULT_VIDEO_ALLOWED_HOSTS)),
+  VIDEO_MAX_BYTES: fromEnv(z.coerce.number().int().positive().default(500 * 1024 * 1024)),
+  VIDEO_STATUS_POLL_INTERVAL_MS: fromEnv(z.coerce.number().int().positive().default(3000)),
+  VIDEO_MAX_PROMPT_LENGTH: fromEnv(z.coerce.number().int().positive().default(1000)),
+  VIDEO_MAX_CONCURRENT_JOBS: fromEnv(z.coerce.number().int().positive().default(4)),
+  VIDEO_MAX_CONCURRENT_JOBS_PER_USER: fromEnv(z.coerce.number().int().positive().default(2)),
+  VIDEO_TASK_TIMEOUT_MS: fromEnv(z.coerce.number().int().positive().default(30 * 60 * 1000)),
+  VIDEO_STORAGE_BACKEND: fromEnv(z.enum(['local', 'none']).default('local')),
+  VIDEO_STORAGE_PATH: fromEnv(z.string().optional()),
+  TASK_STORE_BACKEND: fromEnv(z.enum(['memory', 'file']).default('memory')),
+  TASK_STORE_PATH: fromEnv(z.string().optional()),
+  HISTORY_STORE_BACKEND: fromEnv(z.enum(['file', 'memory']).default('file')),
+  HISTORY_STORE_PATH: fromEnv(z.string().optional()),
+  TASK_RETENTION_HOURS: fromEnv(z.coerce.number().positive().default(24)),
+  CLIENT_API_KEYS: fromEnv(z.string().optional()),
+  CLIENT_IP_HEADER: fromEnv(z.string().optional()),
+  TRUSTED_PROXY_HOPS: fromEnv(z.coerce.number().int().nonnegative().default(0)),
+  RATE_LIMIT_BURST: fromEnv(z.coerce.number().int().positive().default(10)),
+  RATE_LIMIT_PER_MINUTE: fromEnv(z.coerce.number().positive().default(6)),
+  IDEMPOTENCY_WINDOW_MINUTES: fromEnv(z.coerce.number().positive().default(60)),
+  MOCK_QUEUE_MS: fromEnv(z.coerce.number().int().nonnegative().default(2000)),
+  MOCK_RENDER_MS: fromEnv(z.coerce.number().int().nonnegative().default(10000)),
+  MOCK_FAILURE_RATE: fromEnv(z.coerce.number().min(0).max(1).default(0)),
+  MOCK_SEED: fromEnv(z.coerce.number().int().default(1))
+}).superRefine((env, ctx) => {
+  if (env.VIDEO_PROVIDER !== 'mock' && !env.VIDEO_PROVIDER_API_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['VIDEO_PROVIDER_API_KEY'],
+      message: `is required for the ${env.VIDEO_PROVIDER} provider`
+    })
+  }
+
+  if (env.VIDEO_PROVIDER === 'chat-completions' && !env.VIDEO_PROVIDER_CUSTOMER_ID) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['VIDEO_PROVIDER_CUSTOMER_ID'],
+      message: 'is required for the chat-completions provider'
+    })
+  }
+})
+
+const DEFAULT_ENDPOINTS = {
+  'chat-completions': 'https://oi-server.onrender.com/chat/completions',
+  'replicate': 'https://api.replicate.com/v1',
+  'mock': ''
+}
+
+const DEFAULT_MODELS = {
+  'chat-completions': 'replicate/google/veo-3',
+  'replicate': 'google/veo-3',
+  'mock': 'mock/test-pattern'
+}
+
+const toServerConfig = (env: z.infer<typeof envSchema>) => ({
+  provider: {
+    name: env.VIDEO_PROVIDER,
+    endpoint: env.VIDEO_PROVIDER_ENDPOINT ?? DEFAULT_ENDPOINTS[env.VIDEO_PROVIDER],
+    apiKey: env.VIDEO_PROVIDER_API_KEY ?? '',
+    customerId: env.VIDEO_PROVIDER_CUSTOMER_ID ?? '',
+    model: env.VIDEO_MODEL ?? DEFAULT_MODELS[env.VIDEO_PROVIDER],
+    timeoutMs: env.VIDEO_PROVIDER_TIMEOUT_MS,
+    statusPollIntervalMs: env.VIDEO_STATUS_POLL_INTERVAL_MS,
+    maxRetries: env.VIDEO_PROVIDER_MAX_RETRIES,
+    retryBaseDelayMs: env.VIDEO_PROVIDER_RETRY_BASE_DELAY_MS
+  },
+  videoUrls: {
+    allowedHosts: parseAllowedHosts(env.VIDEO_ALLOWED_HOSTS),
+    maxBytes: env.VIDEO_MAX_BYTES
+  },
+  videoStorage: {
+    backend: env.VIDEO_STORAGE_BACKEND,
+    path: env.VIDEO_STORAGE_PATH
+  },
+  limits: {
+    maxPromptLength: env.VIDEO_MAX_PROMPT_LENGTH,
+    taskTimeoutMs: env.VIDEO_TASK_TIMEOUT_MS,
+    queue: {
+      maxConcurrent: env.VIDEO_MAX_CONCURRENT_JOBS,
+      maxConcurrentPerUser: env.VIDEO_MAX_CONCURRENT_JOBS_PER_USER
+    }
+  },
+  taskStore: {
+    backend: env.TASK_STORE_BACKEND,
+    path: env.TASK_STORE_PATH,
+    retentionMs: env.TASK_RETENTION_HOURS * 60 * 60 * 1000
+  },
+  historyStore: {
+    backend: env.HISTORY_STORE_BACKEND,
+    path: env.HISTORY_STORE_PATH
+  },
+  clients: {
+    apiKeys: (env.CLIENT_API_KEYS ?? '').split(',').map(key => key.trim()).filter(Boolean),
+    ipHeader: env.CLIENT_IP_HEADER?.toLowerCase(),
+    trustedProxyHops: env.TRUSTED_PROXY_HOPS
+  },
+  rateLimit: {
+    capacity: env.RATE_LIMIT_BURST,
+    refillPerMinute: env.RATE_LIMIT_PER_MINUTE
+  },
+  idempotency: {
+    windowMs: env.IDEMPOTENCY_WINDOW_MINUTES * 60 * 1000
+  },
+  mock: {
+    queueMs: env.MOCK_QUEUE_MS,
+    renderMs: env.MOCK_RENDER_MS,
+    failureRate: env.MOCK_FAILURE_RATE,
+    seed: env.MOCK_SEED
+  }
+})
+
+export type ServerConfig = ReturnType<typeof toServerConfig>
+
+export type ConfigResult =
+  | { valid: true; config: ServerConfig }
+  | { valid: false; issues: string[] }
+
+export class ConfigError extends Error {
+  issues: string[]
+
+  constructor(issues: string[]) {
+    super(`Invalid server configuration: ${issues.join('; ')}`)
+    this.name = 'ConfigError'
+    this.issues = issues
+  }
+}
+
+// Issues name the offending variable but never echo its value, so they are safe to expose
+export const parseServerConfig = (env: NodeJS.ProcessEnv): ConfigResult => {
+  const result = envSchema.safeParse(env)
+
+  if (!result.success) {
+    return {
+      valid: false,
+      issues: result.error.issues.map(issue => {
+        // Zod's enum message quotes the received value; list the options instead
+        const message = issue.code === z.ZodIssueCode.invalid_enum_value
+          ? `must be one of ${issue.options.join(', ')}`
+          : issue.message
+        return `${issue.path.join('.')} ${message}`
+      })
+    }
+  }
+
+  return { valid: true, config: toServerConfig(result.data) }
+}
+
+export const loadServerConfig = (): ConfigResult =>
+  processSingleton('serverConfig', () => parseServerConfig(process.env))
+
+export const getServerConfig = (): ServerConfig => {
+  const result = loadServerConfig()
+  if (!result.valid) {
+    throw new ConfigError(result.issues)
+  }
+  return result.config
+}
@@ -0,0 +1,115 @@
+import path from 'path'
+import { paginateGenerations, type GenerationListQuery, type GenerationPage } from '@/lib/generation-query'
+import { createSharedGenerationSchema, type Generation } from '@/lib/video-schema'
+import { getServerConfig } from './config'
+import { JsonFileMap } from './json-file-map'
+import { processSingleton } from './process-singleton'
+
+// Shared generation history, so every device and teammate sees the same list
+export interface GenerationRepository {
+  list(query: GenerationListQuery): Promise<GenerationPage>
+  get(id: string): Promise<Generation | undefined>
+  // Adds new generations and fills in fields missing from existing ones. Resolves the IDs
+  // of any left as they were because they would have changed a field already set.
+  putAll(generations: Generation[]): Promise<string[]>
+  delete(id: string): Promise<boolean>
+}
+
+// Anyone can save, so a save may add what a generation lacks, such as the poster
+// captured after it finished, but not change what it has
+const mergeGeneration = (existing: Generation, incoming: Generation): Generation | undefined => {
+  const changed = (Object.keys(incoming) as (keyof Generation)[]).some(key =>
+    existing[key] !== undefined && JSON.stringify(existing[key]) !== JSON.stringify(incoming[key])
+  )
+  return changed ? undefined : { ...existing, ...incoming }
+}
+
+const saveInto = (stored: Map<string, Generation>, generations: Generation[]): string[] => {
+  const rejected: string[] = []
+  for (const generation of generations) {
+    const existing = stored.get(generation.id)
+    const merged = existing ? mergeGeneration(existing, generation) : generation
+    if (merged) {
+      stored.set(generation.id, merged)
+    } else {
+      rejected.push(generation.id)
+    }
+  }
+  return rejected
+}
+
+export class MemoryGenerationRepository implements GenerationRepository {
+  private generations = new Map<string, Generation>()
+
+  async list(query: GenerationListQuery): Promise<GenerationPage> {
+    return paginateGenerations(Array.from(this.generations.values()), query)
+  }
+
+  async get(id: string): Promise<Generation | undefined> {
+    return this.generations.get(id)
+  }
+
+  async putAll(generations: Generation[]): Promise<string[]> {
+    return saveInto(this.generations, generations)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.generations.delete(id)
+  }
+}
+
+// Keeps the whole history in a single JSON file, like the file task store
+export class FileGenerationRepository implements GenerationRepository {
+  private file: JsonFileMap<Generation>
+
+  constructor(filePath: string, allowedHosts: string[]) {
+    const schema = createSharedGenerationSchema(allowedHosts)
+    this.file = new JsonFileMap(filePath, {
+      name: 'generation history',
+      keyOf: generation => generation.id,
+      // Records written by an older schema, or pointing at hosts no longer allowed, are
+      // dropped rather than served
+      parse: record => {
+        const result = schema.safeParse(record)
+        return result.success ? result.data : undefined
+      }
+    })
+  }
+
+  async list(query: GenerationListQuery): Promise<GenerationPage> {
+    const generations = await this.file.load()
+    return paginateGenerations(Array.from(generations.values()), query)
+  }
+
+  async get(id: string): Promise<Generation | undefined> {
+    const generations = await this.file.load()
+    return generations.get(id)
+  }
+
+  async putAll(generations: Generation[]): Promise<string[]> {
+    const rejected = saveInto(await this.file.load(), generations)
+    if (rejected.length < generations.length) await this.file.persist()
+    return rejected
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const generations = await this.file.load()
+    if (!generations.delete(id)) return false
+
+    await this.file.persist()
+    return true
+  }
+}
+
+const createGenerationRepository = (): GenerationRepository => {
+  const { historyStore: config, videoUrls } = getServerConfig()
+  return config.backend === 'file'
+    ? new FileGenerationRepository(
+      config.path ?? path.join(process.cwd(), '.data', 'generations.json'),
+      videoUrls.allowedHosts
+    )
+    : new MemoryGenerationRepository()
+}
+
+export const getGenerationRepository = (): GenerationRepository =>
+  processSingleton('generationRepository', createGenerationRepository)
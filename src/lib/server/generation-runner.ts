@@ -0,0 +1,236 @@
+import type { VideoGenerationRequest } from '@/lib/video-schema'
+import { getVideoProvider } from './providers'
+import { getServerConfig } from './config'
+import { getJobQueue } from './job-queue'
+import { getTaskStore, isTaskFinished, type TaskRecord, type TaskUpdate } from './task-store'
+import { ProviderError, providerErrorFromResponse, toProviderError } from './providers/errors'
+import { getRetryDelay, sleep, withRetries, type RetryOptions } from './retry'
+import { fetchAllowedUrl, verifyVideoUrl } from './video-url'
+import { getVideoStorage } from './video-storage'
+import { processSingleton } from './process-singleton'
+
+// One controller per running generation so a cancel request can stop its loop and
+// abort any provider request still in flight
+const getRuns = (): Map<string, AbortController> =>
+  processSingleton('generationRuns', () => new Map<string, AbortController>())
+
+// Queues a generation behind the concurrency limits; it starts as soon as a slot frees up
+export function enqueueGeneration(taskId: string, userKey: string, request: VideoGenerationRequest): void {
+  getJobQueue().enqueue(taskId, userKey, async () => {
+    await getTaskStore().update(taskId, { queuePosition: undefined })
+    await runGeneration(taskId, request)
+  })
+}
+
+// Submits the request to the configured provider and mirrors its job state into the
+// task store until the job finishes. Never throws; failures are recorded on the task.
+export async function runGeneration(taskId: string, request: VideoGenerationRequest): Promise<void> {
+  const taskStore = getTaskStore()
+  const controller = new AbortController()
+  const { signal } = controller
+  getRuns().set(taskId, controller)
+
+  try {
+    const config = getServerConfig()
+    const { statusPollIntervalMs, maxRetries, retryBaseDelayMs } = config.provider
+    const deadline = Date.now() + config.limits.taskTimeoutMs
+    const provider = getVideoProvider()
+
+    const retry: RetryOptions = {
+      maxRetries,
+      baseDelayMs: retryBaseDelayMs,
+      deadline,
+      signal,
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`Task ${taskId}: retry ${attempt} of ${maxRetries} in ${delayMs}ms after: ${error.message}`)
+      }
+    }
+
+    const submit = () => withRetries(() => provider.submit(request, signal), retry)
+    let jobId = await submit()
+    let resubmissions = 0
+
+    // Cancelled while the submission was in flight, before the job ID was recorded
+    if (signal.aborted) {
+      await provider.cancel(jobId)
+      return
+    }
+
+    await taskStore.update(taskId, { status: 'submitted', provider: provider.name, providerJobId: jobId })
+
+    let startedAt: string | undefined
+
+    while (!signal.aborted) {
+      if (Date.now() >= deadline) {
+        await expireGeneration(taskId, jobId, config.limits.taskTimeoutMs)
+        return
+      }
+
+      const state = await withRetries(() => provider.getStatus(jobId), retry)
+      if (signal.aborted) return
+
+      if (state.status === 'queued') {
+        await taskStore.update(taskId, { progress: state.progress })
+        await sleep(statusPollIntervalMs, signal)
+        continue
+      }
+
+      if (state.status === 'processing') {
+        const updates: TaskUpdate = { status: 'processing', stage: 'rendering', progress: state.progress }
+
+        // Time-based progress is measured from when rendering actually began
+        if (!startedAt) {
+          startedAt = new Date().toISOString()
+          updates.startedAt = startedAt
+        }
+
+        await taskStore.update(taskId, updates)
+        await sleep(statusPollIntervalMs, signal)
+        continue
+      }
+
+      if (state.status === 'failed') {
+        const error = new ProviderError(
+          state.error || 'Video generation failed',
+          state.errorCategory ?? 'permanent',
+          { retryAfterMs: state.retryAfterMs }
+        )
+
+        // A job that died of a transient upstream problem is gone, so start it again
+        if (error.category !== 'transient' || resubmissions >= maxRetries) throw error
+        resubmissions++
+
+        const delayMs = getRetryDelay(error, resubmissions, retryBaseDelayMs)
+        if (Date.now() + delayMs >= deadline) throw error
+
+        console.warn(`Task ${taskId}: resubmitting (${resubmissions} of ${maxRetries}) in ${delayMs}ms after: ${error.message}`)
+        await sleep(delayMs, signal)
+        if (signal.aborted) return
+
+        jobId = await submit()
+        await taskStore.update(taskId, { providerJobId: jobId })
+        continue
+      }
+
+      if (!state.videoUrl) {
+        throw new ProviderError('Video generation finished without a video', 'permanent')
+      }
+
+      await taskStore.update(taskId, { status: 'processing', stage: 'uploading' })
+
+      // Never hand the browser a URL that is not a video on a host we trust
+      const providerVideoUrl = state.videoUrl
+      let videoUrl = await withRetries(() => verifyVideoUrl(providerVideoUrl, {
+        ...config.videoUrls,
+        timeoutMs: config.provider.timeoutMs,
+        signal
+      }), retry)
+
+      // Provider URLs expire, so keep our own copy when storage is configured
+      try {
+        videoUrl = await withRetries(() => storeVideo(taskId, videoUrl, signal), retry)
+      } catch (error) {
+        if (signal.aborted) return
+        console.error(`Task ${taskId}: could not store video, using the provider URL:`, error)
+      }
+      if (signal.aborted) return
+
+      await taskStore.update(taskId, { status: 'completed', stage: undefined, videoUrl })
+      return
+    }
+  } catch (error) {
+    // Aborted requests are the cancellation itself, not a failure
+    if (signal.aborted) return
+
+    const providerError = toProviderError(error)
+    console.error('Video generation error:', providerError)
+    await taskStore.update(taskId, {
+      status: 'failed',
+      stage: undefined,
+      error: providerError.message,
+      errorCategory: providerError.category
+    })
+  } finally {
+    getRuns().delete(taskId)
+  }
+}
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime'
+}
+
+// Copies a verified video into storage under the task ID and returns the URL of our
+// copy. Local URLs (the mock provider's clips) are already ours and stay as they are.
+async function storeVideo(taskId: string, videoUrl: string, signal: AbortSignal): Promise<string> {
+  const storage = getVideoStorage()
+  if (!storage || videoUrl.startsWith('/')) return videoUrl
+
+  const config = getServerConfig()
+  const response = await fetchAllowedUrl(new URL(videoUrl), {
+    signal: AbortSignal.any([signal, AbortSignal.timeout(config.provider.timeoutMs)])
+  }, config.videoUrls.allowedHosts)
+  if (!response.ok || !response.body) {
+    throw await providerErrorFromResponse(response, 'Video download failed')
+  }
+
+  // Object stores often label videos as octet-stream, so fall back to the extension
+  let contentType = response.headers.get('content-type')?.split(';')[0].trim() ?? ''
+  if (!contentType.startsWith('video/')) {
+    const extension = new URL(videoUrl).pathname.toLowerCase().match(/\.\w+$/)?.[0] ?? ''
+    contentType = CONTENT_TYPES_BY_EXTENSION[extension] ?? 'video/mp4'
+  }
+
+  await storage.putObject(taskId, response.body, { contentType, maxBytes: config.videoUrls.maxBytes })
+  return `/api/videos/${encodeURIComponent(taskId)}`
+}
+
+// Gives up on a job that outlived the task timeout, cancelling it upstream so it stops
+// consuming provider credits
+async function expireGeneration(taskId: string, jobId: string, timeoutMs: number): Promise<void> {
+  try {
+    await getVideoProvider().cancel(jobId)
+  } catch (error) {
+    console.error('Provider cancel error:', error)
+  }
+
+  await getTaskStore().update(taskId, {
+    status: 'expired',
+    stage: undefined,
+    error: `Generation timed out after ${Math.round(timeoutMs / 60000)} minutes`,
+    errorCategory: 'transient'
+  })
+}
+
+// Stops a running generation and asks the provider to cancel the upstream job.
+// Resolves with the task as it stands afterwards, or undefined if it does not exist or
+// another client created it.
+export async function cancelGeneration(taskId: string, clientKey: string): Promise<TaskRecord | undefined> {
+  const taskStore = getTaskStore()
+  const task = await taskStore.get(taskId)
+  // Other callers' tasks look the same as missing ones
+  if (!task || task.clientKey !== clientKey) return undefined
+  if (isTaskFinished(task)) return task
+
+  // Jobs still waiting for a slot never reached the provider
+  getJobQueue().remove(taskId)
+  getRuns().get(taskId)?.abort()
+
+  if (task.providerJobId) {
+    try {
+      await getVideoProvider().cancel(task.providerJobId)
+    } catch (error) {
+      // The task is cancelled either way; the provider job may just run to completion
+      console.error('Provider cancel error:', error)
+    }
+  }
+
+  return taskStore.update(taskId, {
+    status: 'cancelled',
+    stage: undefined,
+    queuePosition: undefined,
+    error: 'Cancelled by user'
+  })
+}
@@ -0,0 +1,63 @@
+import { getServerConfig } from './config'
+import { processSingleton } from './process-singleton'
+
+interface IdempotencyEntry {
+  fingerprint: string
+  expiresAt: number
+  // Pending while the first request is still creating its task, so a concurrent
+  // duplicate waits for it instead of creating a second one
+  taskId: Promise<string>
+}
+
+export type IdempotencyResult =
+  | { status: 'created'; taskId: string }
+  | { status: 'replayed'; taskId: string }
+  | { status: 'mismatch' }
+
+// Remembers which task each Idempotency-Key created so retried requests get the
+// original task back instead of starting (and paying for) another job
+export class IdempotencyStore {
+  private entries = new Map<string, IdempotencyEntry>()
+  private windowMs: number
+
+  constructor(windowMs: number) {
+    this.windowMs = windowMs
+  }
+
+  // Runs create() for a key seen for the first time, otherwise resolves with the task
+  // the key already produced. Reusing a key for a different request is a mismatch.
+  async getOrCreate(key: string, fingerprint: string, create: () => Promise<string>): Promise<IdempotencyResult> {
+    this.prune()
+
+    const existing = this.entries.get(key)
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return { status: 'mismatch' }
+      }
+      return { status: 'replayed', taskId: await existing.taskId }
+    }
+
+    const taskId = create()
+    this.entries.set(key, { fingerprint, expiresAt: Date.now() + this.windowMs, taskId })
+
+    try {
+      return { status: 'created', taskId: await taskId }
+    } catch (error) {
+      // Nothing was created, so a retry with the same key should try again
+      this.entries.delete(key)
+      throw error
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+  }
+}
+
+export const getIdempotencyStore = (): IdempotencyStore =>
+  processSingleton('idempotencyStore', () => new IdempotencyStore(getServerConfig().idempotency.windowMs))
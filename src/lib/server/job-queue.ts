@@ -0,0 +1,104 @@
+import { getServerConfig } from './config'
+import { processSingleton } from './process-singleton'
+import { getTaskStore } from './task-store'
+
+export interface JobQueueOptions {
+  // Jobs running at once across all users
+  maxConcurrent: number
+  // Jobs running at once for a single user
+  maxConcurrentPerUser: number
+}
+
+interface QueuedJob {
+  taskId: string
+  userKey: string
+  run: () => Promise<void>
+}
+
+// First-in, first-out queue that caps how many jobs run at once, both overall and per
+// user. A user at their own limit does not hold up other users queued behind them.
+export class JobQueue {
+  private options: JobQueueOptions
+  private pending: QueuedJob[] = []
+  private running = new Map<string, number>()
+  private runningCount = 0
+  private onChange: (pendingTaskIds: string[]) => void
+
+  constructor(options: JobQueueOptions, onChange: (pendingTaskIds: string[]) => void = () => {}) {
+    this.options = options
+    this.onChange = onChange
+  }
+
+  enqueue(taskId: string, userKey: string, run: () => Promise<void>): void {
+    this.pending.push({ taskId, userKey, run })
+    this.pump()
+  }
+
+  // Drops a job that has not started yet. Returns false if it is running or unknown.
+  remove(taskId: string): boolean {
+    const index = this.pending.findIndex(job => job.taskId === taskId)
+    if (index === -1) return false
+
+    this.pending.splice(index, 1)
+    this.onChange(this.getPendingTaskIds())
+    return true
+  }
+
+  // 1-based position among jobs waiting to start, or undefined once it has started
+  getPosition(taskId: string): number | undefined {
+    const index = this.pending.findIndex(job => job.taskId === taskId)
+    return index === -1 ? undefined : index + 1
+  }
+
+  private pump(): void {
+    for (let i = 0; i < this.pending.length && this.runningCount < this.options.maxConcurrent; ) {
+      const job = this.pending[i]
+      if ((this.running.get(job.userKey) ?? 0) >= this.options.maxConcurrentPerUser) {
+        i++
+        continue
+      }
+
+      this.pending.splice(i, 1)
+      this.start(job)
+    }
+
+    this.onChange(this.getPendingTaskIds())
+  }
+
+  private start(job: QueuedJob): void {
+    this.runningCount++
+    this.running.set(job.userKey, (this.running.get(job.userKey) ?? 0) + 1)
+
+    job.run()
+      .catch(error => console.error('Queued job error:', error))
+      .finally(() => {
+        this.runningCount--
+        const count = (this.running.get(job.userKey) ?? 1) - 1
+        if (count > 0) {
+          this.running.set(job.userKey, count)
+        } else {
+          this.running.delete(job.userKey)
+        }
+        this.pump()
+      })
+  }
+
+  private getPendingTaskIds(): string[] {
+    return this.pending.map(job => job.taskId)
+  }
+}
+
+function createJobQueue(): JobQueue {
+  const { limits } = getServerConfig()
+
+  // Mirror positions onto the tasks so status checks and event streams report them
+  return new JobQueue(limits.queue, pendingTaskIds => {
+    const taskStore = getTaskStore()
+    pendingTaskIds.forEach((taskId, index) => {
+      taskStore.update(taskId, { queuePosition: index + 1 })
+        .catch(error => console.error(`Queue position update error for ${taskId}:`, error))
+    })
+  })
+}
+
+export const getJobQueue = (): JobQueue => processSingleton('jobQueue', createJobQueue)
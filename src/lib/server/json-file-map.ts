@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export interface JsonFileMapOptions<T> {
+  // Used in log messages, e.g. "task store"
+  name: string
+  keyOf: (record: T) => string
+  // Returns undefined for records that should be dropped rather than loaded
+  parse?: (record: unknown) => T | undefined
+  indent?: number
+}
+
+// A map of records kept in a single JSON file. It is loaded lazily on first use and
+// rewritten as a whole after every change.
+export class JsonFileMap<T> {
+  private filePath: string
+  private options: JsonFileMapOptions<T>
+  private records: Map<string, T> | null = null
+  private pendingWrite: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string, options: JsonFileMapOptions<T>) {
+    this.filePath = filePath
+    this.options = options
+  }
+
+  async load(): Promise<Map<string, T>> {
+    if (this.records) return this.records
+
+    let data: unknown = []
+    try {
+      data = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load ${this.options.name}:`, error)
+      }
+    }
+
+    const { parse, keyOf } = this.options
+    const records = Array.isArray(data)
+      ? data.flatMap(record => {
+        const parsed = parse ? parse(record) : record as T
+        return parsed === undefined ? [] : [parsed]
+      })
+      : []
+
+    // Another caller may have finished loading while this one was reading
+    this.records ??= new Map(records.map(record => [keyOf(record), record]))
+    return this.records
+  }
+
+  // Writes the current records. Rejects when the write fails so callers do not report
+  // success for changes that never reached disk.
+  persist(): Promise<void> {
+    // Serialize writes and swap the file in atomically so readers never see a partial file
+    const write = this.pendingWrite.then(async () => {
+      const records = Array.from(this.records?.values() ?? [])
+      const tempPath = `${this.filePath}.tmp`
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      await fs.writeFile(tempPath, JSON.stringify(records, null, this.options.indent))
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    // A failed write must not block the ones queued after it
+    this.pendingWrite = write.catch(error => {
+      console.error(`Failed to persist ${this.options.name}:`, error)
+    })
+
+    return write
+  }
+}
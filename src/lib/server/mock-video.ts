@@ -0,0 +1,381 @@
+import type { AspectRatio } from '@/lib/video-schema'
+import { processSingleton } from './process-singleton'
+
+// Builds a small animated test-pattern MP4 without ffmpeg so the mock provider can
+// serve real, playable video offline. Every frame is an H.264 IDR picture made of
+// I_PCM macroblocks (raw samples, no prediction or transforms), which any baseline
+// decoder plays back; the trade-off is size, so frames are kept tiny.
+
+const FRAME_RATE = 8
+const TIMESCALE = 1000
+
+const DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 128, height: 72 },
+  '9:16': { width: 72, height: 128 },
+  '1:1': { width: 96, height: 96 }
+}
+
+// SMPTE-style colour bars as RGB
+const BARS: Array<[number, number, number]> = [
+  [192, 192, 192],
+  [192, 192, 0],
+  [0, 192, 192],
+  [0, 192, 0],
+  [192, 0, 192],
+  [192, 0, 0],
+  [0, 0, 192]
+]
+
+class BitWriter {
+  private bytes: number[] = []
+  private current = 0
+  private bitCount = 0
+
+  writeBit(bit: number): void {
+    this.current = (this.current << 1) | (bit & 1)
+    this.bitCount++
+    if (this.bitCount === 8) {
+      this.bytes.push(this.current)
+      this.current = 0
+      this.bitCount = 0
+    }
+  }
+
+  writeBits(value: number, count: number): void {
+    for (let i = count - 1; i >= 0; i--) {
+      this.writeBit((value >> i) & 1)
+    }
+  }
+
+  // Unsigned Exp-Golomb code
+  writeUE(value: number): void {
+    const codeNum = value + 1
+    const length = Math.floor(Math.log2(codeNum))
+    this.writeBits(0, length)
+    this.writeBits(codeNum, length + 1)
+  }
+
+  // Signed Exp-Golomb code
+  writeSE(value: number): void {
+    this.writeUE(value <= 0 ? -2 * value : 2 * value - 1)
+  }
+
+  alignWithZeros(): void {
+    while (this.bitCount !== 0) {
+      this.writeBit(0)
+    }
+  }
+
+  // Only valid while byte aligned
+  writeByte(value: number): void {
+    this.bytes.push(value)
+  }
+
+  writeTrailingBits(): void {
+    this.writeBit(1)
+    this.alignWithZeros()
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes)
+  }
+}
+
+// Wraps an RBSP in a NAL unit, inserting emulation prevention bytes
+const toNalUnit = (header: number, rbsp: Buffer): Buffer => {
+  const output: number[] = [header]
+  let zeros = 0
+
+  for (const byte of rbsp) {
+    if (zeros >= 2 && byte <= 3) {
+      output.push(3)
+      zeros = 0
+    }
+    output.push(byte)
+    zeros = byte === 0 ? zeros + 1 : 0
+  }
+
+  return Buffer.from(output)
+}
+
+const createSps = (mbWidth: number, mbHeight: number, cropRight: number, cropBottom: number): Buffer => {
+  const bits = new BitWriter()
+  bits.writeBits(66, 8) // profile_idc: baseline
+  bits.writeBits(0xc0, 8) // constraint_set0 and constraint_set1
+  bits.writeBits(30, 8) // level_idc
+  bits.writeUE(0) // seq_parameter_set_id
+  bits.writeUE(0) // log2_max_frame_num_minus4
+  bits.writeUE(2) // pic_order_cnt_type: output order follows decode order
+  bits.writeUE(1) // max_num_ref_frames
+  bits.writeBit(0) // gaps_in_frame_num_value_allowed_flag
+  bits.writeUE(mbWidth - 1)
+  bits.writeUE(mbHeight - 1)
+  bits.writeBit(1) // frame_mbs_only_flag
+  bits.writeBit(1) // direct_8x8_inference_flag
+
+  const cropping = cropRight > 0 || cropBottom > 0
+  bits.writeBit(cropping ? 1 : 0)
+  if (cropping) {
+    // Offsets are in chroma units, i.e. two pixels for 4:2:0
+    bits.writeUE(0)
+    bits.writeUE(cropRight / 2)
+    bits.writeUE(0)
+    bits.writeUE(cropBottom / 2)
+  }
+
+  bits.writeBit(0) // vui_parameters_present_flag
+  bits.writeTrailingBits()
+  return toNalUnit(0x67, bits.toBuffer())
+}
+
+const createPps = (): Buffer => {
+  const bits = new BitWriter()
+  bits.writeUE(0) // pic_parameter_set_id
+  bits.writeUE(0) // seq_parameter_set_id
+  bits.writeBit(0) // entropy_coding_mode_flag: CAVLC
+  bits.writeBit(0) // bottom_field_pic_order_in_frame_present_flag
+  bits.writeUE(0) // num_slice_groups_minus1
+  bits.writeUE(0) // num_ref_idx_l0_default_active_minus1
+  bits.writeUE(0) // num_ref_idx_l1_default_active_minus1
+  bits.writeBit(0) // weighted_pred_flag
+  bits.writeBits(0, 2) // weighted_bipred_idc
+  bits.writeSE(0) // pic_init_qp_minus26
+  bits.writeSE(0) // pic_init_qs_minus26
+  bits.writeSE(0) // chroma_qp_index_offset
+  bits.writeBit(0) // deblocking_filter_control_present_flag
+  bits.writeBit(0) // constrained_intra_pred_flag
+  bits.writeBit(0) // redundant_pic_cnt_present_flag
+  bits.writeTrailingBits()
+  return toNalUnit(0x68, bits.toBuffer())
+}
+
+interface Planes {
+  y: Uint8Array
+  u: Uint8Array
+  v: Uint8Array
+  stride: number
+}
+
+// Draws scrolling colour bars, a bouncing box and a progress bar for one frame
+const drawFrame = (planes: Planes, width: number, height: number, frameIndex: number, frameCount: number): void => {
+  const { y, u, v, stride } = planes
+  const codedHeight = y.length / stride
+  const progress = frameCount > 1 ? frameIndex / (frameCount - 1) : 1
+  const boxSize = Math.max(Math.round(Math.min(width, height) / 5), 8)
+  const travel = Math.max(width - boxSize, 1)
+  const bounce = Math.floor(frameIndex * 3) % (travel * 2)
+  const boxX = bounce < travel ? bounce : travel * 2 - bounce
+  const boxY = Math.round((height - boxSize) / 2)
+  const barTop = height - Math.max(Math.round(height / 10), 4)
+  const shift = frameIndex * 2
+
+  const colourAt = (px: number, py: number): [number, number, number] => {
+    if (px >= width || py >= height) return [16, 16, 16]
+    if (py >= barTop) {
+      return px < width * progress ? [235, 235, 235] : [32, 32, 32]
+    }
+    if (px >= boxX && px < boxX + boxSize && py >= boxY && py < boxY + boxSize) {
+      return [255, 255, 255]
+    }
+    const bar = Math.floor((((px + shift) % width) / width) * BARS.length)
+    return BARS[bar]
+  }
+
+  for (let py = 0; py < codedHeight; py++) {
+    for (let px = 0; px < stride; px++) {
+      const [r, g, b] = colourAt(px, py)
+      // BT.601 limited range; H.264 disallowed zero-valued PCM samples in early
+      // revisions, so keep everything at or above 1
+      y[py * stride + px] = Math.max(Math.round(0.257 * r + 0.504 * g + 0.098 * b + 16), 1)
+
+      if (px % 2 === 0 && py % 2 === 0) {
+        const index = (py / 2) * (stride / 2) + px / 2
+        u[index] = Math.max(Math.round(-0.148 * r - 0.291 * g + 0.439 * b + 128), 1)
+        v[index] = Math.max(Math.round(0.439 * r - 0.368 * g - 0.071 * b + 128), 1)
+      }
+    }
+  }
+}
+
+const createIdrSlice = (planes: Planes, mbWidth: number, mbHeight: number, frameIndex: number): Buffer => {
+  const { y, u, v, stride } = planes
+  const chromaStride = stride / 2
+  const bits = new BitWriter()
+
+  bits.writeUE(0) // first_mb_in_slice
+  bits.writeUE(7) // slice_type: I, and every slice in the picture is I
+  bits.writeUE(0) // pic_parameter_set_id
+  bits.writeBits(0, 4) // frame_num
+  bits.writeUE(frameIndex % 2) // idr_pic_id must differ between consecutive IDRs
+  bits.writeBit(0) // no_output_of_prior_pics_flag
+  bits.writeBit(0) // long_term_reference_flag
+  bits.writeSE(0) // slice_qp_delta
+
+  for (let mbY = 0; mbY < mbHeight; mbY++) {
+    for (let mbX = 0; mbX < mbWidth; mbX++) {
+      bits.writeUE(25) // mb_type: I_PCM
+      bits.alignWithZeros()
+
+      for (let row = 0; row < 16; row++) {
+        const offset = (mbY * 16 + row) * stride + mbX * 16
+        for (let col = 0; col < 16; col++) {
+          bits.writeByte(y[offset + col])
+        }
+      }
+
+      for (const plane of [u, v]) {
+        for (let row = 0; row < 8; row++) {
+          const offset = (mbY * 8 + row) * chromaStride + mbX * 8
+          for (let col = 0; col < 8; col++) {
+            bits.writeByte(plane[offset + col])
+          }
+        }
+      }
+    }
+  }
+
+  bits.writeTrailingBits()
+  return toNalUnit(0x65, bits.toBuffer())
+}
+
+const uint32 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32BE(value)
+  return buffer
+}
+
+const uint16 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(2)
+  buffer.writeUInt16BE(value)
+  return buffer
+}
+
+const box = (type: string, ...payload: Buffer[]): Buffer => {
+  const body = Buffer.concat(payload)
+  return Buffer.concat([uint32(body.length + 8), Buffer.from(type, 'ascii'), body])
+}
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Buffer[]): Buffer => {
+  return box(type, uint32((version << 24) | flags), ...payload)
+}
+
+const IDENTITY_MATRIX = Buffer.concat([
+  uint32(0x00010000), uint32(0), uint32(0),
+  uint32(0), uint32(0x00010000), uint32(0),
+  uint32(0), uint32(0), uint32(0x40000000)
+])
+
+const createMoov = (
+  width: number,
+  height: number,
+  sps: Buffer,
+  pps: Buffer,
+  sampleSizes: number[],
+  chunkOffset: number
+): Buffer => {
+  const sampleDelta = TIMESCALE / FRAME_RATE
+  const duration = sampleSizes.length * sampleDelta
+
+  const mvhd = fullBox('mvhd', 0, 0,
+    uint32(0), uint32(0), uint32(TIMESCALE), uint32(duration),
+    uint32(0x00010000), uint16(0x0100), Buffer.alloc(10),
+    IDENTITY_MATRIX, Buffer.alloc(24), uint32(2)
+  )
+
+  const tkhd = fullBox('tkhd', 0, 0x000003,
+    uint32(0), uint32(0), uint32(1), uint32(0), uint32(duration),
+    Buffer.alloc(8), uint16(0), uint16(0), uint16(0), uint16(0),
+    IDENTITY_MATRIX, uint32(width << 16), uint32(height << 16)
+  )
+
+  const mdhd = fullBox('mdhd', 0, 0,
+    uint32(0), uint32(0), uint32(TIMESCALE), uint32(duration),
+    uint16(0x55c4), uint16(0) // language: und
+  )
+
+  const hdlr = fullBox('hdlr', 0, 0,
+    uint32(0), Buffer.from('vide', 'ascii'), Buffer.alloc(12), Buffer.from('VideoHandler\0', 'ascii')
+  )
+
+  const avcC = box('avcC',
+    Buffer.from([1, sps[1], sps[2], sps[3], 0xff, 0xe1]),
+    uint16(sps.length), sps,
+    Buffer.from([1]), uint16(pps.length), pps
+  )
+
+  const avc1 = box('avc1',
+    Buffer.alloc(6), uint16(1), // reserved, data_reference_index
+    Buffer.alloc(16), uint16(width), uint16(height),
+    uint32(0x00480000), uint32(0x00480000), uint32(0), uint16(1),
+    Buffer.alloc(32), uint16(0x0018), uint16(0xffff),
+    avcC
+  )
+
+  const stbl = box('stbl',
+    fullBox('stsd', 0, 0, uint32(1), avc1),
+    fullBox('stts', 0, 0, uint32(1), uint32(sampleSizes.length), uint32(sampleDelta)),
+    fullBox('stsc', 0, 0, uint32(1), uint32(1), uint32(sampleSizes.length), uint32(1)),
+    fullBox('stsz', 0, 0, uint32(0), uint32(sampleSizes.length), ...sampleSizes.map(uint32)),
+    fullBox('stco', 0, 0, uint32(1), uint32(chunkOffset))
+  )
+
+  const minf = box('minf',
+    fullBox('vmhd', 0, 1, Buffer.alloc(8)),
+    box('dinf', fullBox('dref', 0, 0, uint32(1), fullBox('url ', 0, 1))),
+    stbl
+  )
+
+  return box('moov', mvhd, box('trak', tkhd, box('mdia', mdhd, hdlr, minf)))
+}
+
+export const createTestPatternVideo = (aspectRatio: AspectRatio, durationSeconds: number): Buffer => {
+  const { width, height } = DIMENSIONS[aspectRatio]
+  const mbWidth = Math.ceil(width / 16)
+  const mbHeight = Math.ceil(height / 16)
+  const stride = mbWidth * 16
+  const codedHeight = mbHeight * 16
+  const frameCount = Math.max(Math.round(durationSeconds * FRAME_RATE), 1)
+
+  const sps = createSps(mbWidth, mbHeight, stride - width, codedHeight - height)
+  const pps = createPps()
+  const planes: Planes = {
+    y: new Uint8Array(stride * codedHeight),
+    u: new Uint8Array((stride / 2) * (codedHeight / 2)),
+    v: new Uint8Array((stride / 2) * (codedHeight / 2)),
+    stride
+  }
+
+  // Each sample is a single length-prefixed IDR slice; SPS and PPS live in avcC
+  const samples: Buffer[] = []
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+    drawFrame(planes, width, height, frameIndex, frameCount)
+    const slice = createIdrSlice(planes, mbWidth, mbHeight, frameIndex)
+    samples.push(Buffer.concat([uint32(slice.length), slice]))
+  }
+
+  const ftyp = box('ftyp',
+    Buffer.from('isom', 'ascii'), uint32(0x200),
+    Buffer.from('isomiso2avc1mp41', 'ascii')
+  )
+  const sampleSizes = samples.map(sample => sample.length)
+
+  // moov goes first so playback can start before the whole file arrives; its size
+  // does not depend on the offset value, so measure it once and then fill it in
+  const moovSize = createMoov(width, height, sps, pps, sampleSizes, 0).length
+  const moov = createMoov(width, height, sps, pps, sampleSizes, ftyp.length + moovSize + 8)
+  const mdat = box('mdat', ...samples)
+
+  return Buffer.concat([ftyp, moov, mdat])
+}
+
+const videoCache = processSingleton('mockVideos', () => new Map<string, Buffer>())
+
+export const getTestPatternVideo = (aspectRatio: AspectRatio, durationSeconds: number): Buffer => {
+  const key = `${aspectRatio}:${durationSeconds}`
+  let video = videoCache.get(key)
+  if (!video) {
+    video = createTestPatternVideo(aspectRatio, durationSeconds)
+    videoCache.set(key, video)
+  }
+  return video
+}
@@ -0,0 +1,20 @@
+// Next.js can bundle each route handler separately in development and re-evaluates
+// modules on hot reload, so module-level state would be duplicated per route and lost
+// on every edit. Keeping shared server state on globalThis gives one instance per process.
+const globalForSingletons = globalThis as unknown as { processSingletons?: Map<string, unknown> }
+
+const getSingletons = (): Map<string, unknown> => {
+  if (!globalForSingletons.processSingletons) {
+    globalForSingletons.processSingletons = new Map()
+  }
+  return globalForSingletons.processSingletons
+}
+
+// Returns the instance registered under key, creating it on first use
+export function processSingleton<T>(key: string, create: () => T): T {
+  const singletons = getSingletons()
+  if (!singletons.has(key)) {
+    singletons.set(key, create())
+  }
+  return singletons.get(key) as T
+}
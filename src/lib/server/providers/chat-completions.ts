@@ -0,0 +1,121 @@
+import { createEnhancedPrompt } from '@/lib/video-api'
+import type { VideoGenerationRequest } from '@/lib/video-schema'
+import {
+  DEFAULT_CAPABILITIES,
+  type ProviderCapabilities,
+  type ProviderConnectionOptions,
+  type ProviderJobState,
+  type VideoProvider
+} from './types'
+import { providerErrorFromResponse, toProviderError } from './errors'
+import { parseResponseBody, parseVideoResponse } from './response-parser'
+
+export interface ChatCompletionsOptions extends ProviderConnectionOptions {
+  customerId: string
+}
+
+interface ChatCompletionsJob {
+  controller: AbortController
+  state: ProviderJobState
+}
+
+// The chat-completions proxy answers synchronously, so each job runs the request in
+// the background and getStatus() reports what it has seen so far
+export class ChatCompletionsProvider implements VideoProvider {
+  readonly name = 'chat-completions'
+  private jobs = new Map<string, ChatCompletionsJob>()
+  private options: ChatCompletionsOptions
+
+  constructor(options: ChatCompletionsOptions) {
+    this.options = options
+  }
+
+  capabilities(): ProviderCapabilities {
+    return {
+      ...DEFAULT_CAPABILITIES,
+      models: [this.options.model],
+      maxPromptLength: this.options.maxPromptLength,
+      supportsCancel: false,
+      supportsProgress: false
+    }
+  }
+
+  async submit(request: VideoGenerationRequest, signal?: AbortSignal): Promise<string> {
+    const jobId = `chat_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+    const job: ChatCompletionsJob = {
+      controller: new AbortController(),
+      state: { status: 'processing' }
+    }
+    this.jobs.set(jobId, job)
+    signal?.addEventListener('abort', () => job.controller.abort(signal.reason), { once: true })
+
+    this.requestVideo(request, job.controller.signal)
+      .then(videoUrl => {
+        job.state = { status: 'completed', videoUrl }
+      })
+      .catch(error => {
+        console.error('Video generation API error:', error)
+        const providerError = toProviderError(error)
+        job.state = {
+          status: 'failed',
+          error: providerError.message,
+          errorCategory: providerError.category,
+          retryAfterMs: providerError.retryAfterMs
+        }
+      })
+
+    return jobId
+  }
+
+  async getStatus(jobId: string): Promise<ProviderJobState> {
+    const job = this.jobs.get(jobId)
+    if (!job) {
+      return { status: 'failed', error: 'Unknown job' }
+    }
+
+    // Finished jobs are handed over once and then forgotten
+    if (job.state.status !== 'processing') {
+      this.jobs.delete(jobId)
+    }
+
+    return job.state
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    // Aborting only drops our connection; the proxy has no way to stop the render
+    this.jobs.get(jobId)?.controller.abort()
+    this.jobs.delete(jobId)
+  }
+
+  private async requestVideo(request: VideoGenerationRequest, signal: AbortSignal): Promise<string> {
+    // Create enhanced prompt with technical specifications
+    const enhancedPrompt = createEnhancedPrompt(request)
+
+    const { endpoint, apiKey, customerId, model, timeoutMs } = this.options
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'customerId': customerId,
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: enhancedPrompt
+          }
+        ]
+      }),
+      signal: AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)])
+    })
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse(response, 'Failed to generate video')
+    }
+
+    return parseVideoResponse(parseResponseBody(await response.text()))
+  }
+}
@@ -0,0 +1,87 @@
+import type { ErrorCategory } from '@/lib/video-schema'
+
+// An upstream failure classified by whether retrying can help:
+// - transient: overloaded, rate limited or timed out; the same request may succeed later
+// - quota: the account is out of credits or quota; waiting alone will not fix it
+// - validation: the provider rejected this request, so it must change first
+// - permanent: anything else the provider refused outright
+export class ProviderError extends Error {
+  category: ErrorCategory
+  status?: number
+  // Delay the provider asked for before the next attempt
+  retryAfterMs?: number
+
+  constructor(message: string, category: ErrorCategory, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message)
+    this.name = 'ProviderError'
+    this.category = category
+    this.status = options.status
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+// The provider answered successfully but not with anything usable as a video. The raw
+// payload is kept so the log shows exactly what came back.
+export class ProviderResponseError extends ProviderError {
+  payload: unknown
+
+  constructor(message: string, payload: unknown) {
+    super(message, 'permanent')
+    this.name = 'ProviderResponseError'
+    this.payload = payload
+  }
+}
+
+const QUOTA_PATTERN = /quota|credit|billing|insufficient/i
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+export const classifyHttpStatus = (status: number, body: string = ''): ErrorCategory => {
+  if (status === 402) return 'quota'
+  if (status === 429) return QUOTA_PATTERN.test(body) ? 'quota' : 'transient'
+  if (status === 408 || status === 425 || status >= 500) return 'transient'
+  if (status === 400 || status === 422) return 'validation'
+  return 'permanent'
+}
+
+// Builds the error for a non-2xx provider response; reads the body for classification
+export const providerErrorFromResponse = async (response: Response, message: string): Promise<ProviderError> => {
+  const body = await response.text().catch(() => '')
+  if (body) console.error(`${message}:`, body)
+
+  return new ProviderError(
+    `${message}: ${response.status} ${response.statusText}`,
+    classifyHttpStatus(response.status, body),
+    { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) }
+  )
+}
+
+// Anything thrown while talking to a provider. Timeouts and dropped connections are
+// transient; unknown errors are treated as permanent so they are not retried blindly.
+export const toProviderError = (error: unknown): ProviderError => {
+  if (error instanceof ProviderError) return error
+
+  if (error instanceof Error) {
+    if (error.name === 'TimeoutError') {
+      return new ProviderError('Video generation service timed out', 'transient')
+    }
+    // fetch rejects with a TypeError when the connection fails
+    if (error instanceof TypeError) {
+      return new ProviderError(`Could not reach video generation service: ${error.message}`, 'transient')
+    }
+    return new ProviderError(error.message, 'permanent')
+  }
+
+  return new ProviderError('Internal server error', 'permanent')
+}
@@ -0,0 +1,25 @@
+import { getServerConfig } from '../config'
+import { processSingleton } from '../process-singleton'
+import { ChatCompletionsProvider } from './chat-completions'
+import { MockProvider } from './mock'
+import { ReplicateProvider } from './replicate'
+import type { VideoProvider } from './types'
+
+export type { ProviderCapabilities, ProviderJobState, ProviderName, VideoProvider } from './types'
+
+function createVideoProvider(): VideoProvider {
+  const config = getServerConfig()
+  const { provider, limits } = config
+
+  switch (provider.name) {
+    case 'replicate':
+      return new ReplicateProvider({ ...provider, maxPromptLength: limits.maxPromptLength })
+    case 'mock':
+      return new MockProvider(config.mock, limits.maxPromptLength)
+    case 'chat-completions':
+      return new ChatCompletionsProvider({ ...provider, maxPromptLength: limits.maxPromptLength })
+  }
+}
+
+// Providers keep per-job state in memory, so share one instance per process
+export const getVideoProvider = (): VideoProvider => processSingleton('videoProvider', createVideoProvider)
@@ -0,0 +1,132 @@
+import type { ErrorCategory, VideoGenerationRequest } from '@/lib/video-schema'
+import { DEFAULT_CAPABILITIES, type ProviderCapabilities, type ProviderJobState, type VideoProvider } from './types'
+
+export interface MockProviderOptions {
+  // Time a job spends queued before it starts rendering
+  queueMs: number
+  // Time a job spends rendering before it completes
+  renderMs: number
+  // Probability in [0, 1] that a job fails part way through rendering
+  failureRate: number
+  // Seed for the failure sequence, so the same submissions fail the same way every run
+  seed: number
+}
+
+interface MockJob {
+  request: VideoGenerationRequest
+  submittedAt: number
+  cancelled: boolean
+  // Fraction of the render at which the job fails, or null if it succeeds
+  failAt: number | null
+  failure: { reason: string; category: ErrorCategory }
+}
+
+// Prompts containing this marker always fail, regardless of the failure rate
+export const MOCK_FAILURE_MARKER = '[mock:fail]'
+
+// One of each kind, so the runner's retry handling can be exercised offline
+const FAILURES: Array<{ reason: string; category: ErrorCategory }> = [
+  { reason: 'Mock provider: simulated render crash', category: 'permanent' },
+  { reason: 'Mock provider: simulated content policy rejection', category: 'validation' },
+  { reason: 'Mock provider: simulated upstream timeout', category: 'transient' },
+  { reason: 'Mock provider: simulated quota exhaustion', category: 'quota' }
+]
+
+// Small deterministic PRNG (mulberry32); Math.random cannot be seeded
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Simulates the full job lifecycle on a fixed timeline without any network access.
+// Completed jobs point at a locally generated test-pattern clip matching the request.
+export class MockProvider implements VideoProvider {
+  readonly name = 'mock'
+  private jobs = new Map<string, MockJob>()
+  private options: MockProviderOptions
+  private maxPromptLength: number
+  private random: () => number
+  private sequence = 0
+
+  constructor(options: MockProviderOptions, maxPromptLength: number) {
+    this.options = options
+    this.maxPromptLength = maxPromptLength
+    this.random = createRandom(options.seed)
+  }
+
+  capabilities(): ProviderCapabilities {
+    return {
+      ...DEFAULT_CAPABILITIES,
+      models: ['mock/test-pattern'],
+      maxPromptLength: this.maxPromptLength,
+      supportsCancel: true,
+      supportsProgress: true
+    }
+  }
+
+  async submit(request: VideoGenerationRequest): Promise<string> {
+    this.sequence++
+    const jobId = `mock_${this.options.seed}_${this.sequence}`
+
+    // Always draw both values so one job's outcome never shifts the next job's sequence
+    const roll = this.random()
+    const failPoint = this.random()
+    const forcedFailure = request.prompt.includes(MOCK_FAILURE_MARKER)
+    const fails = forcedFailure || roll < this.options.failureRate
+
+    this.jobs.set(jobId, {
+      request,
+      submittedAt: Date.now(),
+      cancelled: false,
+      failAt: fails ? 0.2 + failPoint * 0.6 : null,
+      failure: FAILURES[Math.floor(failPoint * FAILURES.length)]
+    })
+
+    return jobId
+  }
+
+  async getStatus(jobId: string): Promise<ProviderJobState> {
+    const job = this.jobs.get(jobId)
+    if (!job) {
+      return { status: 'failed', error: 'Unknown job' }
+    }
+
+    if (job.cancelled) {
+      return { status: 'failed', error: 'Cancelled' }
+    }
+
+    const { queueMs, renderMs } = this.options
+    const elapsed = Date.now() - job.submittedAt
+
+    if (elapsed < queueMs) {
+      return { status: 'queued', progress: 0 }
+    }
+
+    const renderFraction = renderMs > 0 ? (elapsed - queueMs) / renderMs : 1
+
+    if (job.failAt !== null && renderFraction >= job.failAt) {
+      return { status: 'failed', error: job.failure.reason, errorCategory: job.failure.category }
+    }
+
+    if (renderFraction < 1) {
+      return { status: 'processing', progress: Math.round(renderFraction * 100) }
+    }
+
+    const params = new URLSearchParams({
+      aspectRatio: job.request.aspectRatio,
+      duration: job.request.duration.toString()
+    })
+    return { status: 'completed', videoUrl: `/api/mock-video?${params.toString()}` }
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId)
+    if (job) job.cancelled = true
+  }
+}
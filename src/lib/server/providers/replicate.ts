@@ -0,0 +1,95 @@
+import { createEnhancedPrompt } from '@/lib/video-api'
+import type { VideoGenerationRequest } from '@/lib/video-schema'
+import {
+  DEFAULT_CAPABILITIES,
+  type ProviderCapabilities,
+  type ProviderConnectionOptions,
+  type ProviderJobState,
+  type VideoProvider
+} from './types'
+import { providerErrorFromResponse } from './errors'
+import { parseVideoResponse } from './response-parser'
+
+interface ReplicatePrediction {
+  id: string
+  status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled'
+  output?: unknown
+  error?: string | null
+}
+
+// Talks to Replicate's predictions API directly, which is asynchronous and cancellable
+export class ReplicateProvider implements VideoProvider {
+  readonly name = 'replicate'
+  private options: ProviderConnectionOptions
+
+  constructor(options: ProviderConnectionOptions) {
+    this.options = options
+  }
+
+  capabilities(): ProviderCapabilities {
+    return {
+      ...DEFAULT_CAPABILITIES,
+      models: [`replicate/${this.options.model}`],
+      maxPromptLength: this.options.maxPromptLength,
+      supportsCancel: true,
+      supportsProgress: false
+    }
+  }
+
+  async submit(request: VideoGenerationRequest, signal?: AbortSignal): Promise<string> {
+    const prediction = await this.request(`/models/${this.options.model}/predictions`, {
+      method: 'POST',
+      signal,
+      body: JSON.stringify({
+        input: {
+          prompt: createEnhancedPrompt(request),
+          aspect_ratio: request.aspectRatio
+        }
+      })
+    })
+
+    return prediction.id
+  }
+
+  async getStatus(jobId: string): Promise<ProviderJobState> {
+    const prediction = await this.request(`/predictions/${encodeURIComponent(jobId)}`)
+
+    switch (prediction.status) {
+      case 'succeeded':
+        return { status: 'completed', videoUrl: parseVideoResponse(prediction) }
+      case 'failed':
+        return { status: 'failed', error: prediction.error || 'Prediction failed', errorCategory: 'permanent' }
+      case 'canceled':
+        return { status: 'failed', error: 'Prediction was cancelled', errorCategory: 'permanent' }
+      case 'starting':
+        return { status: 'queued' }
+      default:
+        return { status: 'processing' }
+    }
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    await this.request(`/predictions/${encodeURIComponent(jobId)}/cancel`, { method: 'POST' })
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<ReplicatePrediction> {
+    const { endpoint, apiKey, timeoutMs } = this.options
+
+    const response = await fetch(`${endpoint}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      signal: init.signal
+        ? AbortSignal.any([init.signal, AbortSignal.timeout(timeoutMs)])
+        : AbortSignal.timeout(timeoutMs)
+    })
+
+    if (!response.ok) {
+      throw await providerErrorFromResponse(response, 'Replicate request failed')
+    }
+
+    return response.json()
+  }
+}
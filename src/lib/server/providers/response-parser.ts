@@ -0,0 +1,113 @@
+import { ProviderResponseError } from './errors'
+
+const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.mov', '.m4v']
+
+// Fields that name the video outright, so their URLs are trusted without an extension
+const VIDEO_FIELDS = ['video_url', 'videoUrl', 'video', 'output']
+
+// Fields that hold URLs or text which are never the generated video
+const IGNORED_FIELDS = ['error', 'logs', 'input', 'urls']
+
+// Deep enough for JSON tool call arguments nested inside a chat completion
+const MAX_DEPTH = 12
+
+const MARKDOWN_LINK_PATTERN = /!?\[[^\]]*\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/g
+const BARE_URL_PATTERN = /https?:\/\/[^\s<>"'`)\]]+/g
+const FENCED_BLOCK_PATTERN = /```(?:json)?\s*([\s\S]*?)```/g
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+const hasVideoExtension = (value: string): boolean => {
+  const pathname = new URL(value).pathname.toLowerCase()
+  return VIDEO_EXTENSIONS.some(extension => pathname.endsWith(extension))
+}
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+// Free text only counts when it links to something that looks like a video file.
+// Embedded JSON (a whole message or a fenced block) is searched like any other payload.
+const findVideoUrlInText = (text: string, depth: number): string | undefined => {
+  const trimmed = text.trim()
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const parsed = parseJson(trimmed)
+    if (parsed !== undefined) return findVideoUrl(parsed, false, depth + 1)
+  }
+
+  for (const match of trimmed.matchAll(FENCED_BLOCK_PATTERN)) {
+    const parsed = parseJson(match[1])
+    const videoUrl = parsed === undefined ? undefined : findVideoUrl(parsed, false, depth + 1)
+    if (videoUrl) return videoUrl
+  }
+
+  const candidates = [
+    ...Array.from(trimmed.matchAll(MARKDOWN_LINK_PATTERN), match => match[1]),
+    ...Array.from(trimmed.matchAll(BARE_URL_PATTERN), match => match[0])
+  ].map(candidate => candidate.replace(/[.,;:!?]+$/, ''))
+
+  return candidates.find(candidate => isHttpUrl(candidate) && hasVideoExtension(candidate))
+}
+
+const findVideoUrl = (value: unknown, trusted: boolean, depth: number): string | undefined => {
+  if (depth > MAX_DEPTH) return undefined
+
+  if (typeof value === 'string') {
+    if (trusted && isHttpUrl(value.trim())) return value.trim()
+    return findVideoUrlInText(value, depth)
+  }
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const videoUrl = findVideoUrl(item, trusted, depth + 1)
+      if (videoUrl) return videoUrl
+    }
+    return undefined
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+
+    for (const field of VIDEO_FIELDS) {
+      const videoUrl = findVideoUrl(record[field], true, depth + 1)
+      if (videoUrl) return videoUrl
+    }
+
+    for (const [field, fieldValue] of Object.entries(record)) {
+      if (VIDEO_FIELDS.includes(field) || IGNORED_FIELDS.includes(field)) continue
+      const videoUrl = findVideoUrl(fieldValue, false, depth + 1)
+      if (videoUrl) return videoUrl
+    }
+  }
+
+  return undefined
+}
+
+// Finds the generated video's URL in whatever the provider sent back: Replicate
+// predictions, chat completions (message text, content parts or tool call arguments),
+// markdown links or a bare URL. Throws a ProviderResponseError carrying the payload
+// when there is none, rather than passing arbitrary text on as a video source.
+export const parseVideoResponse = (payload: unknown): string => {
+  const videoUrl = findVideoUrl(payload, false, 0)
+  if (!videoUrl) {
+    throw new ProviderResponseError('Video generation service did not return a video URL', payload)
+  }
+  return videoUrl
+}
+
+// Provider bodies are usually JSON, but plain-text answers are searched as-is
+export const parseResponseBody = (body: string): unknown => {
+  return parseJson(body) ?? body
+}
@@ -0,0 +1,53 @@
+import {
+  ASPECT_RATIOS,
+  DURATIONS,
+  type AspectRatio,
+  type ErrorCategory,
+  type VideoGenerationRequest
+} from '@/lib/video-schema'
+
+export type ProviderName = 'chat-completions' | 'replicate' | 'mock'
+
+export interface ProviderCapabilities {
+  models: string[]
+  supportedFormats: AspectRatio[]
+  supportedDurations: number[]
+  maxPromptLength: number
+  // Whether cancel() actually stops the upstream job rather than just abandoning it
+  supportsCancel: boolean
+  // Whether getStatus() reports a real progress percentage
+  supportsProgress: boolean
+}
+
+export interface ProviderJobState {
+  status: 'queued' | 'processing' | 'completed' | 'failed'
+  progress?: number
+  videoUrl?: string
+  error?: string
+  // How a failed job failed; transient failures are worth submitting again
+  errorCategory?: ErrorCategory
+  retryAfterMs?: number
+}
+
+export interface VideoProvider {
+  readonly name: ProviderName
+  capabilities(): ProviderCapabilities
+  // Starts a job and resolves with its provider-side ID without waiting for the video.
+  // Aborting the signal abandons any request still in flight.
+  submit(request: VideoGenerationRequest, signal?: AbortSignal): Promise<string>
+  getStatus(jobId: string): Promise<ProviderJobState>
+  cancel(jobId: string): Promise<void>
+}
+
+export interface ProviderConnectionOptions {
+  endpoint: string
+  apiKey: string
+  model: string
+  timeoutMs: number
+  maxPromptLength: number
+}
+
+export const DEFAULT_CAPABILITIES: Pick<ProviderCapabilities, 'supportedFormats' | 'supportedDurations'> = {
+  supportedFormats: [...ASPECT_RATIOS],
+  supportedDurations: [...DURATIONS]
+}
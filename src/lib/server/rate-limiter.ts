@@ -0,0 +1,126 @@
+import { getServerConfig } from './config'
+import { processSingleton } from './process-singleton'
+
+export interface RateLimitOptions {
+  // Requests a client can make in a burst before being throttled
+  capacity: number
+  // Tokens added back per minute, i.e. the sustained request rate
+  refillPerMinute: number
+}
+
+export interface TokenBucket {
+  tokens: number
+  updatedAt: number
+}
+
+// Where buckets live. The in-memory store only covers one process; a shared store
+// (Redis, a database) lets several instances enforce one limit.
+export interface RateLimitStore {
+  get(key: string): Promise<TokenBucket | undefined>
+  // ttlMs is how long until the bucket would be full again, after which it can be dropped
+  set(key: string, bucket: TokenBucket, ttlMs: number): Promise<void>
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucket & { expiresAt: number }>()
+
+  async get(key: string): Promise<TokenBucket | undefined> {
+    const bucket = this.buckets.get(key)
+    if (!bucket || bucket.expiresAt <= Date.now()) return undefined
+    return { tokens: bucket.tokens, updatedAt: bucket.updatedAt }
+  }
+
+  async set(key: string, bucket: TokenBucket, ttlMs: number): Promise<void> {
+    this.prune()
+    this.buckets.set(key, { ...bucket, expiresAt: Date.now() + ttlMs })
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Until the bucket is full again
+  resetMs: number
+  // Until the next request would be allowed; 0 when this one was
+  retryAfterMs: number
+}
+
+// Token bucket per client: each request takes a token, and tokens trickle back at
+// a steady rate up to the bucket's capacity
+export class RateLimiter {
+  private options: RateLimitOptions
+  private store: RateLimitStore
+  private pending = new Map<string, Promise<RateLimitResult>>()
+
+  constructor(options: RateLimitOptions, store: RateLimitStore = new MemoryRateLimitStore()) {
+    this.options = options
+    this.store = store
+  }
+
+  // Takes a token for the key if one is available
+  consume(key: string): Promise<RateLimitResult> {
+    // Serialize per key so concurrent requests cannot spend the same token twice
+    const previous = this.pending.get(key) ?? Promise.resolve()
+    const result = previous.catch(() => {}).then(() => this.take(key))
+
+    this.pending.set(key, result)
+    void result.catch(() => {}).finally(() => {
+      if (this.pending.get(key) === result) this.pending.delete(key)
+    })
+
+    return result
+  }
+
+  private async take(key: string): Promise<RateLimitResult> {
+    const { capacity, refillPerMinute } = this.options
+    const msPerToken = 60 * 1000 / refillPerMinute
+    const now = Date.now()
+
+    const bucket = await this.store.get(key)
+    const refilled = bucket
+      ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / msPerToken)
+      : capacity
+
+    const allowed = refilled >= 1
+    const tokens = allowed ? refilled - 1 : refilled
+    const resetMs = Math.ceil((capacity - tokens) * msPerToken)
+
+    await this.store.set(key, { tokens, updatedAt: now }, resetMs)
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) * msPerToken)
+    }
+  }
+}
+
+// Standard headers describing the caller's limit; Retry-After only when throttled
+export const getRateLimitHeaders = (result: RateLimitResult): Record<string, string> => {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetMs / 1000))
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfterMs / 1000))
+  }
+
+  return headers
+}
+
+export const getRateLimiter = (): RateLimiter =>
+  processSingleton('rateLimiter', () => new RateLimiter(getServerConfig().rateLimit))
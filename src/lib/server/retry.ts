@@ -0,0 +1,58 @@
+import { ProviderError, toProviderError } from './providers/errors'
+
+export interface RetryOptions {
+  maxRetries: number
+  baseDelayMs: number
+  // Give up instead of waiting past this timestamp
+  deadline: number
+  signal: AbortSignal
+  onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void
+}
+
+const MAX_BACKOFF_MS = 60 * 1000
+
+export const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const timeout = setTimeout(done, ms)
+    signal.addEventListener('abort', done, { once: true })
+
+    function done() {
+      clearTimeout(timeout)
+      signal.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
+
+// Exponential backoff with full jitter, unless the provider said how long to wait
+export const getRetryDelay = (error: ProviderError, attempt: number, baseDelayMs: number): number => {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs
+  const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), MAX_BACKOFF_MS)
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2))
+}
+
+// Runs an operation, retrying transient provider errors with backoff. Throws the
+// classified error once retries run out or the error is not worth retrying.
+export async function withRetries<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { maxRetries, baseDelayMs, deadline, signal, onRetry } = options
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      const providerError = toProviderError(error)
+      if (signal.aborted || providerError.category !== 'transient' || attempt > maxRetries) {
+        throw providerError
+      }
+
+      const delayMs = getRetryDelay(providerError, attempt, baseDelayMs)
+      if (Date.now() + delayMs >= deadline) {
+        throw providerError
+      }
+
+      onRetry?.(providerError, attempt, delayMs)
+      await sleep(delayMs, signal)
+      if (signal.aborted) throw providerError
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { EventEmitter } from 'events'
+import path from 'path'
+import { assertTransition, isActiveStatus, isTerminalStatus } from '@/lib/generation-status'
+import type {
+  ErrorCategory,
+  GenerationStage,
+  GenerationStatus,
+  VideoGenerationRequest,
+  VideoGenerationResponse
+} from '@/lib/video-schema'
+import { getServerConfig } from './config'
+import { JsonFileMap } from './json-file-map'
+import { processSingleton } from './process-singleton'
+
+export type TaskStatus = GenerationStatus
+
+export type TaskStage = GenerationStage
+
+export interface TaskRecord {
+  taskId: string
+  request: VideoGenerationRequest
+  // The caller that created the task, as getClientKey identified them
+  clientKey: string
+  status: TaskStatus
+  stage?: TaskStage
+  estimatedTime: number
+  createdAt: string
+  updatedAt: string
+  startedAt?: string
+  provider?: string
+  providerJobId?: string
+  // Set when the provider reports real progress, otherwise derived from elapsed time
+  progress?: number
+  // 1-based place in the job queue while waiting for a free slot
+  queuePosition?: number
+  videoUrl?: string
+  error?: string
+  errorCategory?: ErrorCategory
+}
+
+export type TaskUpdate = Partial<Omit<TaskRecord, 'taskId' | 'request' | 'clientKey' | 'createdAt'>>
+
+export interface TaskStoreBackend {
+  get(taskId: string): Promise<TaskRecord | undefined>
+  set(task: TaskRecord): Promise<void>
+  delete(taskId: string): Promise<void>
+  list(): Promise<TaskRecord[]>
+}
+
+export class MemoryTaskStoreBackend implements TaskStoreBackend {
+  private tasks = new Map<string, TaskRecord>()
+
+  async get(taskId: string): Promise<TaskRecord | undefined> {
+    return this.tasks.get(taskId)
+  }
+
+  async set(task: TaskRecord): Promise<void> {
+    this.tasks.set(task.taskId, task)
+  }
+
+  async delete(taskId: string): Promise<void> {
+    this.tasks.delete(taskId)
+  }
+
+  async list(): Promise<TaskRecord[]> {
+    return Array.from(this.tasks.values())
+  }
+}
+
+// Keeps every task in a single JSON file so jobs survive a server restart
+export class FileTaskStoreBackend implements TaskStoreBackend {
+  private file: JsonFileMap<TaskRecord>
+
+  constructor(filePath: string) {
+    this.file = new JsonFileMap(filePath, { name: 'task store', keyOf: task => task.taskId, indent: 2 })
+  }
+
+  async get(taskId: string): Promise<TaskRecord | undefined> {
+    const tasks = await this.file.load()
+    return tasks.get(taskId)
+  }
+
+  async set(task: TaskRecord): Promise<void> {
+    const tasks = await this.file.load()
+    tasks.set(task.taskId, task)
+    await this.file.persist()
+  }
+
+  async delete(taskId: string): Promise<void> {
+    const tasks = await this.file.load()
+    if (tasks.delete(taskId)) {
+      await this.file.persist()
+    }
+  }
+
+  async list(): Promise<TaskRecord[]> {
+    const tasks = await this.file.load()
+    return Array.from(tasks.values())
+  }
+}
+
+export type TaskListener = (task: TaskRecord) => void
+
+export class TaskStore {
+  private backend: TaskStoreBackend
+  private retentionMs: number
+  private events = new EventEmitter()
+  // Updates are applied one at a time so a late write can never interleave with another
+  private pendingUpdate: Promise<unknown> = Promise.resolve()
+
+  constructor(backend: TaskStoreBackend, retentionMs: number = 24 * 60 * 60 * 1000) {
+    this.backend = backend
+    this.retentionMs = retentionMs
+    // One listener per open event stream, so there is no meaningful upper bound
+    this.events.setMaxListeners(0)
+  }
+
+  async create(request: VideoGenerationRequest, estimatedTime: number, clientKey: string): Promise<TaskRecord> {
+    await this.prune()
+
+    const now = new Date().toISOString()
+    const task: TaskRecord = {
+      taskId: generateTaskId(),
+      request,
+      clientKey,
+      status: 'queued',
+      estimatedTime,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await this.backend.set(task)
+    return task
+  }
+
+  // Reads wait for updates already issued, so callers always see their own writes
+  async get(taskId: string): Promise<TaskRecord | undefined> {
+    await this.pendingUpdate
+    return this.backend.get(taskId)
+  }
+
+  async update(taskId: string, updates: TaskUpdate): Promise<TaskRecord | undefined> {
+    const result = this.pendingUpdate.then(() => this.applyUpdate(taskId, updates))
+    this.pendingUpdate = result.catch(() => undefined)
+    return result
+  }
+
+  // Listeners are notified after every update and only within this server process
+  subscribe(taskId: string, listener: TaskListener): () => void {
+    this.events.on(taskId, listener)
+    return () => {
+      this.events.off(taskId, listener)
+    }
+  }
+
+  // Drop finished tasks once they are older than the retention window
+  async prune(): Promise<void> {
+    const cutoff = Date.now() - this.retentionMs
+    const tasks = await this.backend.list()
+
+    for (const task of tasks) {
+      if (isTaskFinished(task) && new Date(task.updatedAt).getTime() < cutoff) {
+        await this.backend.delete(task.taskId)
+      }
+    }
+  }
+
+  private async applyUpdate(taskId: string, updates: TaskUpdate): Promise<TaskRecord | undefined> {
+    const task = await this.backend.get(taskId)
+    if (!task) return undefined
+
+    // Finished tasks are final, so writes from a run that was cancelled underneath it are dropped
+    if (isTaskFinished(task)) return task
+    if (updates.status) assertTransition(task.status, updates.status)
+
+    const updatedTask: TaskRecord = {
+      ...task,
+      ...updates,
+      updatedAt: new Date().toISOString()
+    }
+
+    await this.backend.set(updatedTask)
+    this.notify(updatedTask)
+    return updatedTask
+  }
+
+  // A failing listener (e.g. an event stream that already closed) must not fail the
+  // write that triggered it, nor keep the remaining listeners from hearing about it
+  private notify(task: TaskRecord): void {
+    for (const listener of this.events.listeners(task.taskId) as TaskListener[]) {
+      try {
+        listener(task)
+      } catch (error) {
+        console.error(`Task listener failed for ${task.taskId}:`, error)
+      }
+    }
+  }
+}
+
+export const getTaskProgress = (task: TaskRecord): number => {
+  switch (task.status) {
+    case 'queued':
+    case 'submitted':
+      return 0
+    case 'completed':
+    case 'failed':
+      return 100
+    // Jobs stopped part way keep whatever the provider last reported
+    case 'cancelled':
+    case 'expired':
+      return task.progress ?? 0
+  }
+
+  switch (task.stage) {
+    case 'uploading':
+      return 95
+    default: {
+      if (task.progress !== undefined) {
+        return Math.min(Math.round(task.progress), 90)
+      }
+
+      // Most providers do not report progress while rendering, so derive it from
+      // elapsed time against the estimate and hold below the uploading stage
+      const elapsedSeconds = getElapsedSeconds(task)
+      const progress = (elapsedSeconds / task.estimatedTime) * 100
+      return Math.min(Math.round(progress), 90)
+    }
+  }
+}
+
+export const isTaskFinished = (task: TaskRecord): boolean => {
+  return isTerminalStatus(task.status)
+}
+
+export const toVideoGenerationResponse = (task: TaskRecord): VideoGenerationResponse => {
+  const response: VideoGenerationResponse = {
+    success: task.status !== 'failed' && task.status !== 'expired',
+    taskId: task.taskId,
+    status: task.status,
+    progress: getTaskProgress(task)
+  }
+
+  if (task.status === 'processing') response.stage = task.stage
+  if (task.status === 'queued' && task.queuePosition) response.queuePosition = task.queuePosition
+
+  if (isActiveStatus(task.status)) {
+    const elapsedSeconds = getElapsedSeconds(task)
+    response.estimatedTime = Math.max(Math.ceil(task.estimatedTime - elapsedSeconds), 0)
+  }
+
+  if (task.videoUrl) response.videoUrl = task.videoUrl
+  if (task.error) response.error = task.error
+  if (task.errorCategory) response.errorCategory = task.errorCategory
+
+  return response
+}
+
+// Rendering time is measured from when the upstream call started, not from submission
+function getElapsedSeconds(task: TaskRecord): number {
+  const startedAt = task.startedAt ?? task.createdAt
+  return (Date.now() - new Date(startedAt).getTime()) / 1000
+}
+
+function generateTaskId(): string {
+  return `task_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+function createTaskStore(): TaskStore {
+  const { taskStore: config } = getServerConfig()
+  const backend = config.backend === 'file'
+    ? new FileTaskStoreBackend(config.path ?? path.join(process.cwd(), '.data', 'tasks.json'))
+    : new MemoryTaskStoreBackend()
+
+  return new TaskStore(backend, config.retentionMs)
+}
+
+export const getTaskStore = (): TaskStore => processSingleton('taskStore', createTaskStore)
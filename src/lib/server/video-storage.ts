@@ -0,0 +1,126 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs'
+import path from 'path'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as WebReadableStream } from 'stream/web'
+import { getServerConfig } from './config'
+import { processSingleton } from './process-singleton'
+
+export interface StoredObject {
+  key: string
+  contentType: string
+  size: number
+  createdAt: string
+}
+
+export interface ByteRange {
+  // Inclusive, like the Range header
+  start: number
+  end: number
+}
+
+export interface PutObjectOptions {
+  contentType: string
+  // Writing more than this many bytes fails and leaves nothing behind
+  maxBytes?: number
+}
+
+// Shaped after the S3 object API so an S3-compatible bucket can stand in for the
+// local filesystem without touching callers
+export interface VideoStorageBackend {
+  putObject(key: string, body: ReadableStream<Uint8Array>, options: PutObjectOptions): Promise<StoredObject>
+  headObject(key: string): Promise<StoredObject | undefined>
+  getObject(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | undefined>
+  deleteObject(key: string): Promise<void>
+}
+
+export class ObjectTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Object is larger than ${maxBytes} bytes`)
+    this.name = 'ObjectTooLargeError'
+  }
+}
+
+// Keys become file names, so only allow characters that cannot escape the directory
+const KEY_PATTERN = /^[\w-]{1,128}$/
+
+export const isValidStorageKey = (key: string): boolean => KEY_PATTERN.test(key)
+
+// Stores each object as a file next to a small JSON metadata file
+export class LocalVideoStorage implements VideoStorageBackend {
+  private directory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  async putObject(key: string, body: ReadableStream<Uint8Array>, options: PutObjectOptions): Promise<StoredObject> {
+    const filePath = this.getPath(key)
+    const tempPath = `${filePath}.tmp`
+    const { maxBytes = Infinity } = options
+    let size = 0
+
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length
+        callback(size > maxBytes ? new ObjectTooLargeError(maxBytes) : null, chunk)
+      }
+    })
+
+    await fs.mkdir(this.directory, { recursive: true })
+
+    try {
+      await pipeline(Readable.fromWeb(body as WebReadableStream<Uint8Array>), limit, createWriteStream(tempPath))
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      throw error
+    }
+
+    const object: StoredObject = { key, contentType: options.contentType, size, createdAt: new Date().toISOString() }
+    await fs.writeFile(`${filePath}.json`, JSON.stringify(object))
+    // Rename last so the object only becomes visible once it is complete
+    await fs.rename(tempPath, filePath)
+    return object
+  }
+
+  async headObject(key: string): Promise<StoredObject | undefined> {
+    try {
+      const [metadata] = await Promise.all([
+        fs.readFile(`${this.getPath(key)}.json`, 'utf8'),
+        fs.access(this.getPath(key))
+      ])
+      return JSON.parse(metadata)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+      throw error
+    }
+  }
+
+  async getObject(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | undefined> {
+    if (!(await this.headObject(key))) return undefined
+
+    const stream = createReadStream(this.getPath(key), range)
+    return Readable.toWeb(stream) as ReadableStream<Uint8Array>
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const filePath = this.getPath(key)
+    await Promise.all([fs.rm(filePath, { force: true }), fs.rm(`${filePath}.json`, { force: true })])
+  }
+
+  private getPath(key: string): string {
+    if (!isValidStorageKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return path.join(this.directory, key)
+  }
+}
+
+// Undefined when storage is turned off and provider URLs are used directly
+export const getVideoStorage = (): VideoStorageBackend | undefined =>
+  processSingleton('videoStorage', () => {
+    const { videoStorage: config } = getServerConfig()
+    return config.backend === 'local'
+      ? new LocalVideoStorage(config.path ?? path.join(process.cwd(), '.data', 'videos'))
+      : undefined
+  })
@@ -0,0 +1,107 @@
+import { isHostAllowed } from '@/lib/video-hosts'
+import { ProviderError, providerErrorFromResponse } from './providers/errors'
+
+export interface VideoUrlOptions {
+  // Hostnames videos may be served from, matched by isHostAllowed
+  allowedHosts: string[]
+  maxBytes: number
+  timeoutMs: number
+  signal?: AbortSignal
+}
+
+// application/octet-stream is what object stores often send for uploaded files
+const ALLOWED_CONTENT_TYPES = /^(video\/[\w.+-]+|application\/octet-stream)$/i
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+const MAX_REDIRECTS = 5
+
+// Paths on this app (the mock provider's clips) are trusted as they are
+const isLocalPath = (url: string): boolean => url.startsWith('/') && !url.startsWith('//')
+
+const assertAllowedUrl = (url: URL, allowedHosts: string[]): void => {
+  if (url.protocol !== 'https:') {
+    throw new ProviderError('Video URL must use https', 'permanent')
+  }
+  if (!isHostAllowed(url.hostname, allowedHosts)) {
+    throw new ProviderError(`Video host ${url.hostname} is not allowed`, 'permanent')
+  }
+}
+
+// Fetches a video URL following redirects by hand, so every hop is checked against the
+// allow-list before anything is requested from it
+export async function fetchAllowedUrl(url: URL, init: RequestInit, allowedHosts: string[]): Promise<Response> {
+  let current = url
+
+  for (let redirects = 0; ; redirects++) {
+    assertAllowedUrl(current, allowedHosts)
+
+    const response = await fetch(current.href, { ...init, redirect: 'manual' })
+    const location = response.headers.get('location')
+    if (!REDIRECT_STATUSES.has(response.status) || !location) return response
+
+    await response.body?.cancel()
+    if (redirects >= MAX_REDIRECTS) {
+      throw new ProviderError(`Video URL redirected more than ${MAX_REDIRECTS} times`, 'permanent')
+    }
+
+    try {
+      current = new URL(location, current)
+    } catch {
+      throw new ProviderError('Video URL redirected to an invalid URL', 'permanent')
+    }
+  }
+}
+
+// Size from Content-Length, or from Content-Range when a ranged GET answered instead
+const getContentLength = (response: Response): number | undefined => {
+  const total = response.headers.get('content-range')?.match(/\/(\d+)$/)?.[1]
+  if (total) return Number(total)
+
+  const length = response.headers.get('content-length')
+  return length === null ? undefined : Number(length)
+}
+
+async function probe(url: URL, options: VideoUrlOptions): Promise<Response> {
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, AbortSignal.timeout(options.timeoutMs)])
+    : AbortSignal.timeout(options.timeoutMs)
+
+  const response = await fetchAllowedUrl(url, { method: 'HEAD', signal }, options.allowedHosts)
+  if (response.status !== 405 && response.status !== 501) return response
+
+  // Some hosts refuse HEAD; ask for a single byte instead and drop the body
+  const ranged = await fetchAllowedUrl(url, { headers: { Range: 'bytes=0-0' }, signal }, options.allowedHosts)
+  await ranged.body?.cancel()
+  return ranged
+}
+
+// Checks that a provider's video URL is safe to hand to the browser: https, on an
+// allowed host (after redirects), and actually a video of reasonable size. Resolves
+// with the URL to store; throws a classified ProviderError otherwise.
+export async function verifyVideoUrl(videoUrl: string, options: VideoUrlOptions): Promise<string> {
+  if (isLocalPath(videoUrl)) return videoUrl
+
+  let url: URL
+  try {
+    url = new URL(videoUrl)
+  } catch {
+    throw new ProviderError('Video URL is not a valid URL', 'permanent')
+  }
+
+  const response = await probe(url, options)
+  if (!response.ok) {
+    throw await providerErrorFromResponse(response, 'Video URL check failed')
+  }
+
+  const contentType = response.headers.get('content-type')?.split(';')[0].trim() ?? ''
+  if (!ALLOWED_CONTENT_TYPES.test(contentType)) {
+    throw new ProviderError(`Video URL serves ${contentType || 'an unknown content type'}, not a video`, 'permanent')
+  }
+
+  const size = getContentLength(response)
+  if (size !== undefined && size > options.maxBytes) {
+    throw new ProviderError(`Video is ${size} bytes, over the ${options.maxBytes} byte limit`, 'permanent')
+  }
+
+  return url.href
+}
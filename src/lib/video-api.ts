@@ -1,23 +1,132 @@
-interface VideoGenerationRequest {
-  prompt: string
-  duration: number
-  aspectRatio: '16:9' | '9:16' | '1:1'
-  style: string
-  quality: 'standard' | 'high'
+import type { GenerationListQuery, GenerationPage, GenerationsResponse } from './generation-query'
+import { isTerminalStatus } from './generation-status'
+import {
+  parseVideoGenerationRequest,
+  type ErrorCategory,
+  type FieldError,
+  type Generation,
+  type VideoGenerationRequest,
+  type VideoGenerationResponse
+} from './video-schema'
+
+export type { FieldError, VideoGenerationRequest, VideoGenerationResponse } from './video-schema'
+
+export interface PollOptions {
+  // How long to wait once the task has left the server's queue; time spent queued
+  // behind other jobs does not count
+  maxWaitMs: number
+  // Whether the task is still queued when watching starts
+  queued?: boolean
+  initialDelayMs?: number
+  maxDelayMs?: number
+  maxConsecutiveErrors?: number
+  onUpdate?: (response: VideoGenerationResponse) => void
+  signal?: AbortSignal
+}
+
+// A failed generation request, classified so callers can tell whether trying again can help
+export class VideoGenerationError extends Error {
+  category: ErrorCategory
+
+  constructor(message: string, category: ErrorCategory) {
+    super(message)
+    this.name = 'VideoGenerationError'
+    this.category = category
+  }
+
+  static fromResponse(response: VideoGenerationResponse, fallbackMessage: string): VideoGenerationError {
+    return new VideoGenerationError(response.error || fallbackMessage, response.errorCategory ?? 'permanent')
+  }
+}
+
+// The server is throttling this client; no request will be accepted for retryAfterMs
+export class RateLimitError extends VideoGenerationError {
+  retryAfterMs: number
+  limit?: number
+
+  constructor(message: string, retryAfterMs: number, limit?: number) {
+    super(message, 'transient')
+    this.name = 'RateLimitError'
+    this.retryAfterMs = retryAfterMs
+    this.limit = limit
+  }
+
+  static async fromHttpResponse(response: Response): Promise<RateLimitError> {
+    const body: Partial<VideoGenerationResponse> = await response.json().catch(() => ({}))
+    const retryAfterSeconds = Number(response.headers.get('retry-after'))
+    const limit = Number(response.headers.get('x-ratelimit-limit'))
+
+    return new RateLimitError(
+      body.error || 'Too many generation requests',
+      Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : 60 * 1000,
+      Number.isFinite(limit) && limit > 0 ? limit : undefined
+    )
+  }
 }
 
-interface VideoGenerationResponse {
-  success: boolean
-  videoUrl?: string
-  error?: string
-  taskId?: string
-  status?: 'processing' | 'completed' | 'failed'
-  estimatedTime?: number
+export interface GenerateVideoOptions {
+  // Sending the same key again returns the original task instead of starting another job
+  idempotencyKey?: string
+  maxRetries?: number
+}
+
+export interface TaskSubscriptionHandlers {
+  onUpdate: (response: VideoGenerationResponse) => void
+  onError?: (error: Error) => void
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(signal?.reason)
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+const createTimeoutResponse = (taskId: string, maxWaitMs: number): VideoGenerationResponse => ({
+  success: false,
+  taskId,
+  status: 'expired',
+  error: `Timed out after ${Math.round(maxWaitMs / 1000)} seconds waiting for the video`,
+  errorCategory: 'transient'
+})
+
+// Responses without a status carry an error and end the task just like a terminal status
+const isFinishedResponse = (response: VideoGenerationResponse): boolean => {
+  return !response.status || isTerminalStatus(response.status)
+}
+
+// randomUUID is only available in secure contexts, so fall back for plain-HTTP hosts
+const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`
+}
+
+// Spread delays by +/-25% so many clients polling at once do not stay in lockstep
+const withJitter = (ms: number): number => {
+  return ms * (0.75 + Math.random() * 0.5)
 }
 
 export class VideoGenerationAPI {
   private static instance: VideoGenerationAPI
   private baseUrl: string
+  // Idempotency keys of submissions still waiting for a response, by request body
+  private inFlightKeys = new Map<string, string>()
 
   constructor(baseUrl: string = '/api') {
     this.baseUrl = baseUrl
@@ -30,36 +139,103 @@ export class VideoGenerationAPI {
     return VideoGenerationAPI.instance
   }
 
-  async generateVideo(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
+  // Submits a generation. The same idempotency key is reused across retries, and
+  // identical submissions made while one is still in flight (a double click) share it,
+  // so the server never starts the same job twice. Throws a RateLimitError when the
+  // server is throttling this client; every other failure comes back as a response.
+  async generateVideo(request: VideoGenerationRequest, options: GenerateVideoOptions = {}): Promise<VideoGenerationResponse> {
+    const { maxRetries = 2 } = options
+    const fingerprint = JSON.stringify(request)
+    const inFlightKey = this.inFlightKeys.get(fingerprint)
+    const idempotencyKey = options.idempotencyKey ?? inFlightKey ?? createIdempotencyKey()
+    const ownsKey = !options.idempotencyKey && !inFlightKey
+
+    if (ownsKey) this.inFlightKeys.set(fingerprint, idempotencyKey)
+
     try {
-      const response = await fetch(`${this.baseUrl}/generate-video`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request)
-      })
+      for (let attempt = 0; ; attempt++) {
+        let response: Response
+        try {
+          response = await fetch(`${this.baseUrl}/generate-video`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Idempotency-Key': idempotencyKey
+            },
+            body: JSON.stringify(request)
+          })
+        } catch (error) {
+          // The request may have reached the server, which is exactly what the key covers
+          if (attempt < maxRetries) {
+            await sleep(withJitter(1000 * 2 ** attempt))
+            continue
+          }
+          throw error
+        }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
+        // Validation failures carry field-level errors worth handing to the caller
+        if (response.status === 400 || response.status === 422) {
+          return await response.json()
+        }
 
-      const result: VideoGenerationResponse = await response.json()
-      return result
+        // Retrying right away would only be throttled again
+        if (response.status === 429) {
+          throw await RateLimitError.fromHttpResponse(response)
+        }
+
+        if (response.status >= 500 && attempt < maxRetries) {
+          await sleep(withJitter(1000 * 2 ** attempt))
+          continue
+        }
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        const result: VideoGenerationResponse = await response.json()
+        return result
+      }
     } catch (error) {
+      if (error instanceof RateLimitError) throw error
+
       console.error('Video generation API error:', error)
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
+        errorCategory: 'transient',
         status: 'failed'
       }
+    } finally {
+      if (ownsKey) this.inFlightKeys.delete(fingerprint)
     }
   }
 
   async checkStatus(taskId: string): Promise<VideoGenerationResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/generate-video/status?taskId=${taskId}`)
-      
+      return await this.fetchStatus(taskId)
+    } catch (error) {
+      console.error('Status check API error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        errorCategory: 'transient',
+        status: 'failed'
+      }
+    }
+  }
+
+  // Asks the server to stop the task and its upstream job. Tasks that already
+  // finished come back unsuccessful with their final status.
+  async cancelGeneration(taskId: string): Promise<VideoGenerationResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/generate-video/${encodeURIComponent(taskId)}`, {
+        method: 'DELETE'
+      })
+
+      if (response.status === 404 || response.status === 409) {
+        return await response.json()
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`)
       }
@@ -67,19 +243,238 @@ export class VideoGenerationAPI {
       const result: VideoGenerationResponse = await response.json()
       return result
     } catch (error) {
-      console.error('Status check API error:', error)
+      console.error('Cancel generation API error:', error)
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
-        status: 'failed'
+        taskId
       }
     }
   }
 
+  // Polls the status endpoint with exponential backoff and jitter until the task
+  // completes, fails, disappears or runs past maxWaitMs
+  async pollForCompletion(taskId: string, options: PollOptions): Promise<VideoGenerationResponse> {
+    const {
+      maxWaitMs,
+      initialDelayMs = 2000,
+      maxDelayMs = 15000,
+      maxConsecutiveErrors = 3,
+      onUpdate,
+      signal
+    } = options
+
+    let queued = options.queued ?? false
+    let waitedMs = 0
+    let lastCheckedAt = Date.now()
+    let delay = initialDelayMs
+    let consecutiveErrors = 0
+
+    while (true) {
+      const now = Date.now()
+      if (!queued) waitedMs += now - lastCheckedAt
+      lastCheckedAt = now
+
+      const remaining = maxWaitMs - waitedMs
+      if (remaining <= 0) {
+        return createTimeoutResponse(taskId, maxWaitMs)
+      }
+
+      await sleep(queued ? withJitter(delay) : Math.min(withJitter(delay), remaining), signal)
+
+      let response: VideoGenerationResponse
+      try {
+        response = await this.fetchStatus(taskId)
+        consecutiveErrors = 0
+      } catch (error) {
+        // Network blips should not fail the generation, but a dead server should
+        consecutiveErrors++
+        if (consecutiveErrors >= maxConsecutiveErrors) {
+          return {
+            success: false,
+            taskId,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            errorCategory: 'transient'
+          }
+        }
+        delay = Math.min(delay * 2, maxDelayMs)
+        continue
+      }
+
+      if (!response.success || isFinishedResponse(response)) {
+        return response
+      }
+
+      queued = response.status === 'queued'
+      onUpdate?.(response)
+      delay = Math.min(delay * 2, maxDelayMs)
+    }
+  }
+
+  // Opens a Server-Sent Events stream for the task. Returns a function that closes it.
+  subscribeToTask(taskId: string, handlers: TaskSubscriptionHandlers): () => void {
+    const source = new EventSource(`${this.baseUrl}/generate-video/${encodeURIComponent(taskId)}/events`)
+
+    source.onmessage = event => {
+      let update: VideoGenerationResponse
+      try {
+        update = JSON.parse(event.data)
+      } catch (error) {
+        console.error('Invalid task event:', error)
+        return
+      }
+
+      handlers.onUpdate(update)
+
+      // Close before the browser tries to reconnect to a finished stream
+      if (isFinishedResponse(update)) {
+        source.close()
+      }
+    }
+
+    source.onerror = () => {
+      // EventSource reconnects on its own unless the server refused the stream outright
+      if (source.readyState === EventSource.CLOSED) {
+        handlers.onError?.(new Error('Task event stream closed'))
+      }
+    }
+
+    return () => source.close()
+  }
+
+  // Follows a task over its event stream until it finishes, falling back to polling
+  // when the stream is unavailable
+  watchTask(taskId: string, options: PollOptions): Promise<VideoGenerationResponse> {
+    if (typeof EventSource === 'undefined') {
+      return this.pollForCompletion(taskId, options)
+    }
+
+    const { maxWaitMs, onUpdate, signal } = options
+
+    return new Promise((resolve, reject) => {
+      let settled = false
+      let queued = options.queued ?? false
+      // The wait budget only runs while the task is out of the queue
+      let waitedMs = 0
+      let clockStartedAt: number | undefined
+      let timeout: ReturnType<typeof setTimeout> | undefined
+
+      const startClock = () => {
+        if (clockStartedAt !== undefined) return
+        clockStartedAt = Date.now()
+        timeout = setTimeout(() => finish(() => createTimeoutResponse(taskId, maxWaitMs)), maxWaitMs - waitedMs)
+      }
+
+      const stopClock = () => {
+        if (clockStartedAt === undefined) return
+        waitedMs += Date.now() - clockStartedAt
+        clockStartedAt = undefined
+        clearTimeout(timeout)
+      }
+
+      const finish = (result: () => Promise<VideoGenerationResponse> | VideoGenerationResponse) => {
+        if (settled) return
+        settled = true
+        unsubscribe()
+        stopClock()
+        signal?.removeEventListener('abort', onAbort)
+        Promise.resolve().then(result).then(resolve, reject)
+      }
+
+      const onAbort = () => finish(() => Promise.reject(signal?.reason))
+
+      const unsubscribe = this.subscribeToTask(taskId, {
+        onUpdate: update => {
+          if (!update.success || isFinishedResponse(update)) {
+            finish(() => update)
+            return
+          }
+
+          queued = update.status === 'queued'
+          if (queued) {
+            stopClock()
+          } else {
+            startClock()
+          }
+          onUpdate?.(update)
+        },
+        onError: () => {
+          stopClock()
+          finish(() => this.pollForCompletion(taskId, {
+            ...options,
+            maxWaitMs: Math.max(maxWaitMs - waitedMs, 0),
+            queued
+          }))
+        }
+      })
+
+      if (!queued) startClock()
+
+      if (signal?.aborted) {
+        onAbort()
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true })
+      }
+    })
+  }
+
+  private async fetchStatus(taskId: string): Promise<VideoGenerationResponse> {
+    const response = await fetch(`${this.baseUrl}/generate-video/status?taskId=${encodeURIComponent(taskId)}`)
+
+    // Unknown tasks come back as a 404 with a failed response body so callers stop polling
+    if (response.status === 404) {
+      return await response.json()
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+
+    const result: VideoGenerationResponse = await response.json()
+    return result
+  }
+
+  // The history shared through the server. These throw on failure; the browser keeps
+  // its own copy, so callers can carry on without the server.
+  async listGenerations(query: Partial<GenerationListQuery> = {}): Promise<GenerationPage> {
+    const params = new URLSearchParams()
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(name, String(value))
+    }
+
+    const { generations = [], total = 0, page = 1, pageSize = 0 } = await this.requestGenerations(`?${params}`)
+    return { generations, total, page, pageSize }
+  }
+
+  async saveGenerations(generations: Generation[]): Promise<void> {
+    const result = await this.requestGenerations('', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(generations)
+    })
+
+    // The server keeps its own copy of generations it already has
+    if (result.rejected?.length) {
+      console.warn('Server kept its own copy of generations:', result.rejected.join(', '))
+    }
+  }
+
+  private async requestGenerations(path: string, init?: RequestInit): Promise<GenerationsResponse> {
+    const response = await fetch(`${this.baseUrl}/generations${path}`, init)
+    const result: GenerationsResponse = await response.json().catch(() => ({ success: false }))
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error ?? `HTTP error! status: ${response.status}`)
+    }
+    return result
+  }
+
   async getHealthStatus(): Promise<{
     status: string
     service: string
     timestamp: string
+    provider: string
     models: string[]
     supportedFormats: string[]
     maxDuration: number
@@ -103,26 +498,39 @@ export class VideoGenerationAPI {
 export const videoAPI = VideoGenerationAPI.getInstance()
 
 // Helper functions for video generation
-export const validateVideoRequest = (request: VideoGenerationRequest): string | null => {
-  if (!request.prompt || request.prompt.trim().length === 0) {
-    return 'Prompt is required'
-  }
 
-  if (request.prompt.length > 1000) {
-    return 'Prompt must be less than 1000 characters'
-  }
+// Videos stored by the server can be requested as attachments with a suggested name
+const STORED_VIDEO_PATH = /^\/api\/videos\/[^/?#]+$/
 
-  const validDurations = [5, 10, 15, 30]
-  if (!validDurations.includes(request.duration)) {
-    return 'Duration must be 5, 10, 15, or 30 seconds'
-  }
+export const getVideoDownloadUrl = (videoUrl: string, filename: string): string => {
+  if (!STORED_VIDEO_PATH.test(videoUrl)) return videoUrl
+  return `${videoUrl}?${new URLSearchParams({ download: filename })}`
+}
 
-  const validAspectRatios = ['16:9', '9:16', '1:1']
-  if (!validAspectRatios.includes(request.aspectRatio)) {
-    return 'Invalid aspect ratio'
+// Hands the download to the browser so it streams to disk instead of being buffered
+// in memory first. Cross-origin URLs ignore the download attribute, so those open in
+// a new tab where the browser's own save option works.
+export const downloadVideo = (videoUrl: string, filename: string): void => {
+  const a = document.createElement('a')
+  a.href = getVideoDownloadUrl(videoUrl, filename)
+  a.download = filename
+  if (new URL(a.href).origin !== window.location.origin) {
+    a.target = '_blank'
+    a.rel = 'noopener'
   }
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+}
 
-  return null
+export const validateVideoRequestFields = (request: VideoGenerationRequest): FieldError[] => {
+  const result = parseVideoGenerationRequest(request)
+  return result.success ? [] : result.errors
+}
+
+export const validateVideoRequest = (request: VideoGenerationRequest): string | null => {
+  const errors = validateVideoRequestFields(request)
+  return errors.length > 0 ? errors[0].message : null
 }
 
 export const estimateProcessingTime = (duration: number, quality: string): number => {
@@ -135,6 +543,11 @@ export const estimateProcessingTime = (duration: number, quality: string): numbe
   return Math.max(baseTime, 30) // Minimum 30 seconds
 }
 
+// Give slow renders plenty of headroom past the estimate before the client gives up
+export const getMaxPollingTime = (duration: number, quality: string): number => {
+  return estimateProcessingTime(duration, quality) * 3 * 1000
+}
+
 export const createEnhancedPrompt = (request: VideoGenerationRequest): string => {
   const { prompt, duration, aspectRatio, style, quality } = request
   
@@ -167,51 +580,3 @@ export const createEnhancedPrompt = (request: VideoGenerationRequest): string =>
   
   return enhancedPrompt
 }
-
-// Storage helpers for managing generation history
-export const saveGenerationToHistory = (generation: any): void => {
-  try {
-    const history = getGenerationHistory()
-    const updatedHistory = [generation, ...history.slice(0, 49)] // Keep last 50 generations
-    localStorage.setItem('video-generation-history', JSON.stringify(updatedHistory))
-  } catch (error) {
-    console.error('Failed to save generation to history:', error)
-  }
-}
-
-export const getGenerationHistory = (): any[] => {
-  try {
-    const history = localStorage.getItem('video-generation-history')
-    return history ? JSON.parse(history) : []
-  } catch (error) {
-    console.error('Failed to load generation history:', error)
-    return []
-  }
-}
-
-export const clearGenerationHistory = (): void => {
-  try {
-    localStorage.removeItem('video-generation-history')
-  } catch (error) {
-    console.error('Failed to clear generation history:', error)
-  }
-}
-
-export const exportGenerationHistory = (): string => {
-  const history = getGenerationHistory()
-  return JSON.stringify(history, null, 2)
-}
-
-export const importGenerationHistory = (data: string): boolean => {
-  try {
-    const parsed = JSON.parse(data)
-    if (Array.isArray(parsed)) {
-      localStorage.setItem('video-generation-history', data)
-      return true
-    }
-    return false
-  } catch (error) {
-    console.error('Failed to import generation history:', error)
-    return false
-  }
-}
\ No newline at end of file
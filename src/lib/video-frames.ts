@@ -0,0 +1,167 @@
+// Frame capture from generated videos, done in the browser with a hidden <video> and
+// a canvas so the server needs no ffmpeg
+
+export interface CaptureFrameOptions {
+  // Seconds into the video; defaults to a tenth of the way in, past any fade from black
+  time?: number
+  maxWidth?: number
+  quality?: number
+  timeoutMs?: number
+}
+
+export interface SpriteSheet {
+  // JPEG data URL with every frame side by side, left to right
+  url: string
+  frameCount: number
+}
+
+export interface CaptureSpriteOptions {
+  frameCount?: number
+  frameWidth?: number
+  quality?: number
+  timeoutMs?: number
+}
+
+const DEFAULT_MAX_WIDTH = 480
+const DEFAULT_SPRITE_FRAMES = 10
+const DEFAULT_SPRITE_FRAME_WIDTH = 160
+const DEFAULT_QUALITY = 0.7
+const DEFAULT_TIMEOUT_MS = 15000
+
+// Cross-origin videos need CORS, or the canvas is tainted and cannot be read back
+const loadVideo = (videoUrl: string, signal: AbortSignal): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video')
+    if (new URL(videoUrl, window.location.href).origin !== window.location.origin) {
+      video.crossOrigin = 'anonymous'
+    }
+    video.muted = true
+    video.playsInline = true
+    video.preload = 'auto'
+
+    const cleanup = () => {
+      video.removeEventListener('loadeddata', onLoaded)
+      video.removeEventListener('error', onError)
+      signal.removeEventListener('abort', onAbort)
+    }
+    const onLoaded = () => {
+      cleanup()
+      resolve(video)
+    }
+    const onError = () => {
+      cleanup()
+      reject(new Error('Could not load video for frame capture'))
+    }
+    const onAbort = () => {
+      cleanup()
+      reject(signal.reason)
+    }
+
+    video.addEventListener('loadeddata', onLoaded)
+    video.addEventListener('error', onError)
+    signal.addEventListener('abort', onAbort, { once: true })
+    video.src = videoUrl
+  })
+}
+
+const seekTo = (video: HTMLVideoElement, time: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }
+    const onAbort = () => {
+      video.removeEventListener('seeked', onSeeked)
+      reject(signal.reason)
+    }
+
+    video.addEventListener('seeked', onSeeked, { once: true })
+    signal.addEventListener('abort', onAbort, { once: true })
+    video.currentTime = time
+  })
+}
+
+// Releases the media resource; a detached <video> otherwise keeps its buffer alive
+const unloadVideo = (video: HTMLVideoElement): void => {
+  video.removeAttribute('src')
+  video.load()
+}
+
+const getFrameSize = (video: HTMLVideoElement, maxWidth: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxWidth / video.videoWidth)
+  return {
+    width: Math.round(video.videoWidth * scale),
+    height: Math.round(video.videoHeight * scale)
+  }
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas 2D context is not available')
+  }
+  return { canvas, context }
+}
+
+// Grabs a single frame as a JPEG data URL, small enough to keep with the generation
+export async function captureVideoFrame(videoUrl: string, options: CaptureFrameOptions = {}): Promise<string> {
+  const {
+    maxWidth = DEFAULT_MAX_WIDTH,
+    quality = DEFAULT_QUALITY,
+    timeoutMs = DEFAULT_TIMEOUT_MS
+  } = options
+  const signal = AbortSignal.timeout(timeoutMs)
+
+  const video = await loadVideo(videoUrl, signal)
+  try {
+    const duration = Number.isFinite(video.duration) ? video.duration : 0
+    await seekTo(video, Math.min(options.time ?? duration / 10, duration), signal)
+
+    const { width, height } = getFrameSize(video, maxWidth)
+    const { canvas, context } = createCanvas(width, height)
+    context.drawImage(video, 0, 0, width, height)
+
+    return canvas.toDataURL('image/jpeg', quality)
+  } finally {
+    unloadVideo(video)
+  }
+}
+
+// Grabs evenly spaced low-res frames into one strip, so scrubbing through them is just
+// moving a background image rather than seeking a video
+export async function captureSpriteSheet(videoUrl: string, options: CaptureSpriteOptions = {}): Promise<SpriteSheet> {
+  const {
+    frameCount = DEFAULT_SPRITE_FRAMES,
+    frameWidth = DEFAULT_SPRITE_FRAME_WIDTH,
+    quality = DEFAULT_QUALITY,
+    timeoutMs = DEFAULT_TIMEOUT_MS * 2
+  } = options
+  const signal = AbortSignal.timeout(timeoutMs)
+
+  const video = await loadVideo(videoUrl, signal)
+  try {
+    const duration = Number.isFinite(video.duration) ? video.duration : 0
+    const { width, height } = getFrameSize(video, frameWidth)
+    const { canvas, context } = createCanvas(width * frameCount, height)
+
+    for (let i = 0; i < frameCount; i++) {
+      // Sample the middle of each slice so the first and last frames are not black
+      await seekTo(video, duration * (i + 0.5) / frameCount, signal)
+      context.drawImage(video, i * width, 0, width, height)
+    }
+
+    return { url: canvas.toDataURL('image/jpeg', quality), frameCount }
+  } finally {
+    unloadVideo(video)
+  }
+}
+
+// navigator.share takes files, not data URLs
+export const posterToFile = async (posterUrl: string, name: string): Promise<File> => {
+  const blob = await (await fetch(posterUrl)).blob()
+  return new File([blob], `${name}.jpg`, { type: blob.type || 'image/jpeg' })
+}
@@ -0,0 +1,29 @@
+// The video host allow-list, shared by the server's checks on provider URLs and the
+// browser's checks on imported history
+
+export const DEFAULT_VIDEO_ALLOWED_HOSTS = 'replicate.delivery,**.replicate.delivery'
+
+export const parseAllowedHosts = (value: string): string[] =>
+  value.split(',').map(host => host.trim()).filter(Boolean)
+
+// `*.example.com` matches one subdomain level and `**.example.com` any number, like
+// remotePatterns in next.config.ts
+export const isHostAllowed = (hostname: string, allowedHosts: string[]): boolean => {
+  const host = hostname.toLowerCase()
+
+  return allowedHosts.some(pattern => {
+    const allowed = pattern.toLowerCase()
+    if (allowed.startsWith('**.')) {
+      return host.endsWith(allowed.slice(2))
+    }
+    if (allowed.startsWith('*.')) {
+      const suffix = allowed.slice(1)
+      return host.endsWith(suffix) && !host.slice(0, -suffix.length).includes('.')
+    }
+    return host === allowed
+  })
+}
+
+// VIDEO_ALLOWED_HOSTS as the browser sees it; next.config.ts inlines it at build time
+export const getPublicAllowedHosts = (): string[] =>
+  parseAllowedHosts(process.env.NEXT_PUBLIC_VIDEO_ALLOWED_HOSTS || DEFAULT_VIDEO_ALLOWED_HOSTS)
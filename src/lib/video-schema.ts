@@ -0,0 +1,190 @@
+import { z } from 'zod'
+import { isHostAllowed } from './video-hosts'
+
+// Single source of truth for the generation request/response contract. The API
+// route, the client helpers and the components all derive their types and
+// validation from here.
+
+export const ASPECT_RATIOS = ['16:9', '9:16', '1:1'] as const
+export const DURATIONS = [5, 10, 15, 30] as const
+export const QUALITIES = ['standard', 'high'] as const
+export const GENERATION_STATUSES = [
+  'queued',
+  'submitted',
+  'processing',
+  'completed',
+  'failed',
+  'cancelled',
+  'expired'
+] as const
+// Finer-grained steps within the processing status
+export const GENERATION_STAGES = ['rendering', 'uploading'] as const
+// Why a generation failed, which decides whether trying again can help
+export const ERROR_CATEGORIES = ['transient', 'permanent', 'validation', 'quota'] as const
+export const MAX_PROMPT_LENGTH = 1000
+
+export type FieldErrorCode = 'required' | 'too_long' | 'invalid_enum' | 'invalid_type' | 'invalid'
+
+export interface FieldError {
+  field: string
+  code: FieldErrorCode
+  message: string
+}
+
+export const aspectRatioSchema = z.enum(ASPECT_RATIOS, {
+  errorMap: () => ({ message: 'Invalid aspect ratio' })
+})
+
+export const qualitySchema = z.enum(QUALITIES, {
+  errorMap: () => ({ message: 'Quality must be standard or high' })
+})
+
+export const durationSchema = z.number({ invalid_type_error: 'Duration must be a number' }).refine(
+  value => (DURATIONS as readonly number[]).includes(value),
+  { message: 'Duration must be 5, 10, 15, or 30 seconds', params: { code: 'invalid_enum' } }
+)
+
+export const generationConfigSchema = z.object({
+  duration: durationSchema,
+  aspectRatio: aspectRatioSchema,
+  style: z.string().max(50, 'Style must be at most 50 characters'),
+  quality: qualitySchema
+})
+
+// The server may be configured with a different prompt limit than the client default
+export const createVideoGenerationRequestSchema = (maxPromptLength: number = MAX_PROMPT_LENGTH) =>
+  generationConfigSchema.extend({
+    prompt: z.string({ required_error: 'Prompt is required' })
+      .trim()
+      .min(1, 'Prompt is required')
+      .max(maxPromptLength, `Prompt must be less than ${maxPromptLength} characters`)
+  })
+
+export const videoGenerationRequestSchema = createVideoGenerationRequestSchema()
+
+export const videoGenerationResponseSchema = z.object({
+  success: z.boolean(),
+  videoUrl: z.string().optional(),
+  error: z.string().optional(),
+  errors: z.array(z.object({
+    field: z.string(),
+    code: z.enum(['required', 'too_long', 'invalid_enum', 'invalid_type', 'invalid']),
+    message: z.string()
+  })).optional(),
+  errorCategory: z.enum(ERROR_CATEGORIES).optional(),
+  taskId: z.string().optional(),
+  status: z.enum(GENERATION_STATUSES).optional(),
+  estimatedTime: z.number().optional(),
+  progress: z.number().optional(),
+  stage: z.enum(GENERATION_STAGES).optional(),
+  queuePosition: z.number().optional()
+})
+
+export const generationSchema = z.object({
+  id: z.string(),
+  prompt: z.string(),
+  config: generationConfigSchema,
+  status: z.enum(GENERATION_STATUSES),
+  stage: z.enum(GENERATION_STAGES).optional(),
+  queuePosition: z.number().optional(),
+  // Seconds the server expects the job still needs, as of its last update
+  estimatedTime: z.number().optional(),
+  createdAt: z.string(),
+  // When the job was first seen out of the server's queue
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+  videoUrl: z.string().optional(),
+  // JPEG data URL of a frame captured from the finished video
+  posterUrl: z.string().optional(),
+  // Strip of evenly spaced frames for scrubbing through the video on hover
+  previewSprite: z.object({ url: z.string(), frameCount: z.number().int().positive() }).optional(),
+  error: z.string().optional(),
+  errorCategory: z.enum(ERROR_CATEGORIES).optional(),
+  progress: z.number(),
+  taskId: z.string().optional()
+})
+
+// Where a shared generation's media may come from: our stored copy or the mock
+// provider's clip, or an https URL on an allowed video host
+const LOCAL_VIDEO_URL = /^\/api\/(videos\/[\w-]{1,128}|mock-video\?[\w.=&%-]*)$/
+// Posters and preview sprites are captured in the browser as JPEG data URLs
+const JPEG_DATA_URL = /^data:image\/jpeg;base64,[A-Za-z0-9+/]*={0,2}$/
+
+export const isAllowedVideoUrl = (videoUrl: string, allowedHosts: string[]): boolean => {
+  if (LOCAL_VIDEO_URL.test(videoUrl)) return true
+
+  try {
+    const url = new URL(videoUrl)
+    return url.protocol === 'https:' && isHostAllowed(url.hostname, allowedHosts)
+  } catch {
+    return false
+  }
+}
+
+// Stored in UTC so timestamps from any offset sort as strings, as IndexedDB indexes do
+const isoDateTimeSchema = z.string()
+  .datetime({ offset: true, message: 'Must be an ISO date and time' })
+  .transform(value => new Date(value).toISOString())
+const jpegDataUrlSchema = z.string().regex(JPEG_DATA_URL, 'Must be a JPEG data URL')
+
+// Generations that other people's browsers will render, i.e. the server's shared
+// history and imported files, only get to point at media we trust
+export const createSharedGenerationSchema = (allowedHosts: string[]) => generationSchema.extend({
+  createdAt: isoDateTimeSchema,
+  startedAt: isoDateTimeSchema.optional(),
+  completedAt: isoDateTimeSchema.optional(),
+  videoUrl: z.string()
+    .refine(url => isAllowedVideoUrl(url, allowedHosts), 'Video URL must be a stored video or an https URL on an allowed host')
+    .optional(),
+  posterUrl: jpegDataUrlSchema.optional(),
+  previewSprite: z.object({ url: jpegDataUrlSchema, frameCount: z.number().int().positive() }).optional()
+})
+
+export type AspectRatio = z.infer<typeof aspectRatioSchema>
+export type Quality = z.infer<typeof qualitySchema>
+export type GenerationStatus = z.infer<typeof generationSchema>['status']
+export type GenerationStage = NonNullable<z.infer<typeof generationSchema>['stage']>
+export type ErrorCategory = typeof ERROR_CATEGORIES[number]
+export type GenerationConfig = z.infer<typeof generationConfigSchema>
+export type VideoGenerationRequest = z.infer<typeof videoGenerationRequestSchema>
+export type VideoGenerationResponse = z.infer<typeof videoGenerationResponseSchema>
+export type Generation = z.infer<typeof generationSchema>
+
+const toFieldErrorCode = (issue: z.ZodIssue): FieldErrorCode => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.received === 'undefined' ? 'required' : 'invalid_type'
+    case z.ZodIssueCode.invalid_enum_value:
+      return 'invalid_enum'
+    case z.ZodIssueCode.too_small:
+      return 'required'
+    case z.ZodIssueCode.too_big:
+      return 'too_long'
+    case z.ZodIssueCode.custom:
+      return (issue.params?.code as FieldErrorCode | undefined) ?? 'invalid'
+    default:
+      return 'invalid'
+  }
+}
+
+export const toFieldErrors = (error: z.ZodError): FieldError[] => {
+  return error.issues.map(issue => ({
+    field: issue.path.join('.') || 'body',
+    code: toFieldErrorCode(issue),
+    message: issue.message
+  }))
+}
+
+export type RequestValidationResult =
+  | { success: true; data: VideoGenerationRequest }
+  | { success: false; errors: FieldError[] }
+
+export const parseVideoGenerationRequest = (
+  input: unknown,
+  maxPromptLength: number = MAX_PROMPT_LENGTH
+): RequestValidationResult => {
+  const result = createVideoGenerationRequestSchema(maxPromptLength).safeParse(input)
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, errors: toFieldErrors(result.error) }
+}
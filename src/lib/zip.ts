@@ -0,0 +1,177 @@
+// Just enough of the ZIP format for history exports. Entries are stored uncompressed:
+// videos are already compressed, and the JSON is small next to them. Files and
+// archives stay Blobs throughout, so large videos are never copied into memory whole.
+
+export interface ZipEntry {
+  name: string
+  data: Blob
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_HEADER_SIZE = 46
+const END_OF_DIRECTORY_SIZE = 22
+const MAX_COMMENT_SIZE = 0xffff
+// Sizes and offsets are 32-bit without the ZIP64 extension
+const MAX_ARCHIVE_SIZE = 0xffffffff
+const MAX_ENTRIES = 0xffff
+// Version 2.0, bit 11 for UTF-8 names, method 0 for stored
+const ZIP_VERSION = 20
+const UTF8_FLAG = 0x0800
+const STORED = 0
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0xffffffff
+  const reader = blob.stream().getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8)
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, the only timestamp every unzip tool understands
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+})
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> => {
+  return new DataView(await blob.slice(start, end).arrayBuffer())
+}
+
+export const isZipFile = async (blob: Blob): Promise<boolean> => {
+  if (blob.size < 4) return false
+  return (await readBytes(blob, 0, 4)).getUint32(0, true) === LOCAL_HEADER_SIGNATURE
+}
+
+export const createZip = async (entries: ZipEntry[], modified: Date = new Date()): Promise<Blob> => {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`A ZIP file can hold at most ${MAX_ENTRIES} files`)
+  }
+
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(modified)
+  const parts: BlobPart[] = []
+  const directory: BlobPart[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = await crc32(entry.data)
+    const size = entry.data.size
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE))
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    local.setUint16(4, ZIP_VERSION, true)
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, STORED, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+
+    const central = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE))
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+    central.setUint16(4, ZIP_VERSION, true)
+    central.setUint16(6, ZIP_VERSION, true)
+    central.setUint16(8, UTF8_FLAG, true)
+    central.setUint16(10, STORED, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(local, name, entry.data)
+    directory.push(central, name)
+    offset += LOCAL_HEADER_SIZE + name.length + size
+
+    if (offset > MAX_ARCHIVE_SIZE) {
+      throw new Error('Export is too large for a ZIP file')
+    }
+  }
+
+  const directoryBlob = new Blob(directory)
+  const end = new DataView(new ArrayBuffer(END_OF_DIRECTORY_SIZE))
+  end.setUint32(0, END_OF_DIRECTORY_SIGNATURE, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, directoryBlob.size, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, directoryBlob, end], { type: 'application/zip' })
+}
+
+// Reads archives made by createZip, or any other tool as long as the entries are stored
+// rather than compressed
+export const readZip = async (blob: Blob): Promise<ZipEntry[]> => {
+  // The end-of-directory record sits at the very end, after an optional comment
+  const tailStart = Math.max(0, blob.size - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE)
+  const tail = await readBytes(blob, tailStart, blob.size)
+  let endOffset = -1
+  for (let i = tail.byteLength - END_OF_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_DIRECTORY_SIGNATURE) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP file')
+  }
+
+  const entryCount = tail.getUint16(endOffset + 10, true)
+  const directorySize = tail.getUint32(endOffset + 12, true)
+  const directoryOffset = tail.getUint32(endOffset + 16, true)
+  const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let position = 0, i = 0; i < entryCount; i++) {
+    if (directory.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('ZIP file is damaged')
+    }
+    const method = directory.getUint16(position + 10, true)
+    const size = directory.getUint32(position + 20, true)
+    const nameLength = directory.getUint16(position + 28, true)
+    const extraLength = directory.getUint16(position + 30, true)
+    const commentLength = directory.getUint16(position + 32, true)
+    const localOffset = directory.getUint32(position + 42, true)
+    const nameStart = directory.byteOffset + position + CENTRAL_HEADER_SIZE
+    const name = decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength))
+
+    if (method !== STORED) {
+      throw new Error(`${name} is compressed; only uncompressed ZIP files can be imported`)
+    }
+
+    // The local header's extra field can differ in length from the central one
+    const local = await readBytes(blob, localOffset, localOffset + LOCAL_HEADER_SIZE)
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + local.getUint16(26, true) + local.getUint16(28, true)
+    entries.push({ name, data: blob.slice(dataStart, dataStart + size) })
+
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}